@@ -1,15 +1,34 @@
 import { Keypair } from "@solana/web3.js";
 import { SplBalance } from "../tokens/TokenService.js";
+import { AgentBudget, SpendEntry } from "../security/SpendingBudget.js";
+import { TransactionPolicy } from "../security/TransactionPolicy.js";
+import { ApprovalConfig } from "../approvals/ApprovalQueue.js";
+import { RecoveryPolicy } from "../orchestrator/AgentRun.js";
+import { FeePolicy } from "../wallet/ComputeBudget.js";
+
+/** live: transactions go to the network. paper: balances are simulated. */
+export type AgentMode = "live" | "paper";
 
 export type AgentRecord = {
   id: string;
   walletName: string;
   walletAddress: string;
   strategy: string;
+  /** Defaults to "live" for records created before paper mode. */
+  mode?: AgentMode;
   createdAt: string;
   splBalances?: SplBalance[];
   solSpent?: number;
   spendingLimit?: number;
+  budgets?: AgentBudget[];
+  spendLog?: SpendEntry[];
+  policy?: TransactionPolicy;
+  approval?: ApprovalConfig;
+  knownDestinations?: string[];
+  /** Handling of runs interrupted by a restart. Defaults to RUN_RECOVERY. */
+  recovery?: RecoveryPolicy;
+  /** Priority fee bidding. Defaults to PRIORITY_FEE_* from config. */
+  fees?: FeePolicy;
   lastUpdated?: string;
 };
 
@@ -17,3 +36,30 @@ export type Agent = {
   record: AgentRecord;
   wallet: Keypair;
 };
+
+/**
+ * What a trade executed at, in UI units: `amount` of the traded mint at
+ * `price` quote tokens each.
+ */
+export type TradeFill = {
+  side: "buy" | "sell";
+  mint: string;
+  amount: number;
+  price: number;
+  /** Set for swaps; simulated trades fill at the feed price. */
+  quoteMint?: string;
+  pool?: string;
+};
+
+/** What a strategy decided in one iteration, and what came of it. */
+export type AgentDecision = {
+  iteration: number;
+  action: string;
+  reason: string;
+  signature?: string;
+  error?: string;
+  fill?: TradeFill;
+  timestamp: string;
+};
+
+export type DecisionListener = (decision: AgentDecision) => void;
@@ -1,99 +1,99 @@
 import { Keypair, PublicKey } from "@solana/web3.js";
-import { TokenService } from "../tokens/TokenService.js";
-import { sleep } from "../utils/sleep.js";
+import { TokenOperations } from "../tokens/TokenService.js";
+import { TokenAmount } from "../tokens/TokenAmount.js";
+import { SpendingLimitError } from "../security/errors.js";
+import { Strategy, StrategyDecision } from "../strategies/Strategy.js";
 
 export type LiquidityConfig = {
   poolMint: PublicKey;
   minBalance: number;
   maxBalance: number;
   rebalanceAmount: number;
-  iterations: number;
-  intervalMs: number;
 };
 
 /**
  * LiquidityAgent simulates a liquidity provider that monitors
  * token balances and rebalances when they drift outside a target range.
  */
-export class LiquidityAgent {
-  private running = false;
+export class LiquidityAgent implements Strategy {
+  constructor(
+    private readonly tokenService: TokenOperations,
+    private readonly wallet: Keypair,
+    private readonly config: LiquidityConfig,
+  ) {}
 
-  constructor(private readonly tokenService: TokenService) {}
+  async step(): Promise<StrategyDecision> {
+    const { wallet, config } = this;
+    const balances = await this.tokenService.getSplBalances(wallet.publicKey);
+    const balance = balances.find((b) => b.mint === config.poolMint.toBase58());
+    const held = balance
+      ? TokenAmount.fromRaw(balance.raw, balance.decimals)
+      : undefined;
+    const currentBalance = held?.toNumber() ?? 0;
 
-  async run(wallet: Keypair, config: LiquidityConfig): Promise<string[]> {
-    this.running = true;
-    const signatures: string[] = [];
+    const decision: StrategyDecision = this.evaluateBalance(currentBalance);
 
-    for (let i = 0; i < config.iterations && this.running; i += 1) {
-      const balances = await this.tokenService.getSplBalances(wallet.publicKey);
-      const balance = balances.find(
-        (b) => b.mint === config.poolMint.toBase58(),
-      );
-      const currentBalance = balance ? parseFloat(balance.amount) : 0;
-
-      const decision = this.evaluateBalance(currentBalance, config);
-
-      if (decision.action === "ADD_LIQUIDITY") {
-        // Simulate adding liquidity by minting tokens
+    if (decision.action === "ADD_LIQUIDITY") {
+      // Simulate adding liquidity by minting tokens
+      try {
+        decision.signature = await this.tokenService.mintSpl(
+          wallet,
+          config.poolMint,
+          wallet.publicKey,
+          TokenAmount.parse(
+            config.rebalanceAmount,
+            await this.tokenService.getMintDecimals(config.poolMint),
+          ),
+        );
+      } catch (error) {
+        decision.error = error instanceof Error ? error.message : String(error);
+        if (error instanceof SpendingLimitError) {
+          decision.halt = true;
+        } else {
+          console.error("Add liquidity failed:", error);
+        }
+      }
+    } else if (decision.action === "REMOVE_LIQUIDITY") {
+      // Simulate removing liquidity by burning tokens
+      if (held && !held.isZero()) {
         try {
-          const sig = await this.tokenService.mintSpl(
+          const amount = held.min(
+            TokenAmount.parse(config.rebalanceAmount, held.decimals),
+          );
+          decision.signature = await this.tokenService.burnSpl(
             wallet,
             config.poolMint,
-            wallet.publicKey,
-            BigInt(Math.round(config.rebalanceAmount * 1e6)),
+            amount,
           );
-          signatures.push(sig);
         } catch (error) {
-          console.error("Add liquidity failed:", error);
-        }
-      } else if (decision.action === "REMOVE_LIQUIDITY") {
-        // Simulate removing liquidity by transferring/burning tokens
-        if (currentBalance > 0) {
-          try {
-            const amount = Math.min(currentBalance, config.rebalanceAmount);
-            const burnAddress = new PublicKey(
-              "1111111111111111111111111111111111111111111",
-            );
-            const sig = await this.tokenService.transferSpl(
-              wallet,
-              config.poolMint,
-              wallet,
-              burnAddress,
-              BigInt(Math.round(amount * 1e6)),
-            );
-            signatures.push(sig);
-          } catch (error) {
+          decision.error =
+            error instanceof Error ? error.message : String(error);
+          if (error instanceof SpendingLimitError) {
+            decision.halt = true;
+          } else {
             console.error("Remove liquidity failed:", error);
           }
         }
       }
-
-      if (config.intervalMs > 0 && i < config.iterations - 1 && this.running) {
-        await sleep(config.intervalMs);
-      }
     }
 
-    return signatures;
-  }
-
-  stop(): void {
-    this.running = false;
+    return decision;
   }
 
-  private evaluateBalance(
-    balance: number,
-    config: LiquidityConfig,
-  ): { action: "ADD_LIQUIDITY" | "REMOVE_LIQUIDITY" | "HOLD"; reason: string } {
-    if (balance < config.minBalance) {
+  private evaluateBalance(balance: number): {
+    action: "ADD_LIQUIDITY" | "REMOVE_LIQUIDITY" | "HOLD";
+    reason: string;
+  } {
+    if (balance < this.config.minBalance) {
       return {
         action: "ADD_LIQUIDITY",
-        reason: `Balance ${balance.toFixed(2)} below min ${config.minBalance}`,
+        reason: `Balance ${balance.toFixed(2)} below min ${this.config.minBalance}`,
       };
     }
-    if (balance > config.maxBalance) {
+    if (balance > this.config.maxBalance) {
       return {
         action: "REMOVE_LIQUIDITY",
-        reason: `Balance ${balance.toFixed(2)} above max ${config.maxBalance}`,
+        reason: `Balance ${balance.toFixed(2)} above max ${this.config.maxBalance}`,
       };
     }
     return {
@@ -1,39 +1,51 @@
 import { Keypair, PublicKey } from "@solana/web3.js";
-import { TokenService } from "../tokens/TokenService.js";
-import { sleep } from "../utils/sleep.js";
+import { TokenOperations } from "../tokens/TokenService.js";
+import { ApprovalError, SpendingLimitError } from "../security/errors.js";
+import { Strategy, StrategyDecision } from "../strategies/Strategy.js";
 
 export type AgentLoopOptions = {
   to: PublicKey;
   sol: number;
-  iterations: number;
-  intervalMs: number;
   holdProbability: number;
 };
 
-export class SimpleAgentRunner {
-  constructor(private readonly tokenService: TokenService) {}
+/**
+ * Probabilistic SOL transfers: each step rolls a random number and sends
+ * `sol` to `to` when the roll beats the hold probability.
+ */
+export class SimpleAgentRunner implements Strategy {
+  constructor(
+    private readonly tokenService: TokenOperations,
+    private readonly wallet: Keypair,
+    private readonly options: AgentLoopOptions,
+  ) {}
 
-  async runSolTransferLoop(
-    wallet: Keypair,
-    options: AgentLoopOptions,
-  ): Promise<string[]> {
-    const signatures: string[] = [];
-
-    for (let i = 0; i < options.iterations; i += 1) {
-      const roll = Math.random();
-      if (roll >= options.holdProbability) {
-        const signature = await this.tokenService.transferSol(
-          wallet,
-          options.to,
-          options.sol,
+  async step(): Promise<StrategyDecision> {
+    const roll = Math.random();
+    const decision: StrategyDecision = {
+      action: roll >= this.options.holdProbability ? "TRANSFER" : "HOLD",
+      reason: `Rolled ${roll.toFixed(2)} against hold probability ${this.options.holdProbability}`,
+    };
+    if (decision.action === "TRANSFER") {
+      try {
+        decision.signature = await this.tokenService.transferSol(
+          this.wallet,
+          this.options.to,
+          this.options.sol,
         );
-        signatures.push(signature);
-      }
-      if (options.intervalMs > 0 && i < options.iterations - 1) {
-        await sleep(options.intervalMs);
+      } catch (error) {
+        if (error instanceof ApprovalError) {
+          // Parked, rejected or expired: move on to the next iteration
+          decision.error = error.message;
+        } else if (error instanceof SpendingLimitError) {
+          // Budget exhausted: end the run with what has been sent so far
+          decision.error = error.message;
+          decision.halt = true;
+        } else {
+          throw error;
+        }
       }
     }
-
-    return signatures;
+    return decision;
   }
 }
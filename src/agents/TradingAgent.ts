@@ -1,108 +1,223 @@
 import { Keypair, PublicKey } from "@solana/web3.js";
-import { TokenService } from "../tokens/TokenService.js";
-import { sleep } from "../utils/sleep.js";
+import { TokenOperations } from "../tokens/TokenService.js";
+import { TokenAmount } from "../tokens/TokenAmount.js";
+import { SpendingLimitError } from "../security/errors.js";
+import { Strategy, StrategyDecision } from "../strategies/Strategy.js";
+import {
+  PriceChecks,
+  PriceFeed,
+  PriceQuote,
+  checkQuote,
+} from "../prices/PriceFeed.js";
+import { MockPriceFeed } from "../prices/MockPriceFeed.js";
+import { Clock, systemClock } from "../utils/clock.js";
+import { SwapAdapter, toUiAmount } from "../swaps/SwapAdapter.js";
+import { TradeFill } from "./Agent.js";
 
 export type TradingConfig = {
   targetMint: PublicKey;
   buyThreshold: number;
   sellThreshold: number;
   tradeAmount: number;
-  iterations: number;
-  intervalMs: number;
+  /** Trade through a pool against `quoteMint`; simulated when absent. */
+  swap?: {
+    adapter: SwapAdapter;
+    quoteMint: PublicKey;
+    slippageBps: number;
+  };
 };
 
+type Trade = { signature: string; fill: TradeFill };
+
 /**
- * TradingAgent simulates a simple price-based trading strategy.
- * In a real scenario, it would fetch prices and make buy/sell decisions.
- * For this demo, it simulates trades based on a mock price feed.
+ * TradingAgent runs a simple price-based trading strategy against a price
+ * feed (a mock random walk by default). Quotes that fail the staleness or
+ * confidence checks, or cannot be fetched, force a HOLD. Trades go through a
+ * swap adapter when one is configured, and each decision records its fill.
  */
-export class TradingAgent {
-  private running = false;
+export class TradingAgent implements Strategy {
+  constructor(
+    private readonly tokenService: TokenOperations,
+    private readonly wallet: Keypair,
+    private readonly config: TradingConfig,
+    private readonly feed: PriceFeed = new MockPriceFeed(),
+    private readonly checks: PriceChecks = {},
+    private readonly clock: Clock = systemClock,
+  ) {}
 
-  constructor(private readonly tokenService: TokenService) {}
+  async step(): Promise<StrategyDecision> {
+    const { config } = this;
+    let quote: PriceQuote;
+    try {
+      quote = await this.feed.getPrice(config.targetMint);
+    } catch (error) {
+      return {
+        action: "HOLD",
+        reason: `Price unavailable: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    const problem = checkQuote(quote, this.checks, this.clock.now());
+    if (problem) {
+      return { action: "HOLD", reason: `Price unreliable: ${problem}` };
+    }
 
-  async run(wallet: Keypair, config: TradingConfig): Promise<string[]> {
-    this.running = true;
-    const signatures: string[] = [];
-    let mockPrice = 1.0;
+    const decision: StrategyDecision = this.evaluateMarket(quote.price);
+    if (decision.action === "HOLD") {
+      return decision;
+    }
 
-    for (let i = 0; i < config.iterations && this.running; i += 1) {
-      // Simulate price fluctuation
-      mockPrice *= 0.95 + Math.random() * 0.1; // +/- 5% random walk
+    try {
+      const trade =
+        decision.action === "BUY"
+          ? await this.buy(quote.price)
+          : await this.sell(quote.price);
+      if (trade) {
+        decision.signature = trade.signature;
+        decision.fill = trade.fill;
+      }
+    } catch (error) {
+      decision.error = error instanceof Error ? error.message : String(error);
+      if (error instanceof SpendingLimitError) {
+        decision.halt = true;
+      } else {
+        console.error("Trade execution failed:", error);
+      }
+    }
 
-      const decision = this.evaluateMarket(mockPrice, config);
+    return decision;
+  }
 
-      if (decision.action === "BUY") {
-        // In a real implementation, this would execute a swap on a DEX
-        // For demo, we'll mint tokens to simulate a buy
-        try {
-          const sig = await this.tokenService.mintSpl(
-            wallet,
-            config.targetMint,
-            wallet.publicKey,
-            BigInt(Math.round(config.tradeAmount * 1e6)),
-          );
-          signatures.push(sig);
-        } catch (error) {
-          // Mint may fail if wallet doesn't own the mint authority
-          console.error("Trade execution failed:", error);
-        }
-      } else if (decision.action === "SELL") {
-        // In a real implementation, this would execute a swap on a DEX
-        // For demo, we'll transfer tokens to simulate a sell
-        try {
-          const balances = await this.tokenService.getSplBalances(
-            wallet.publicKey,
-          );
-          const balance = balances.find(
-            (b) => b.mint === config.targetMint.toBase58(),
-          );
-          if (balance && parseFloat(balance.amount) > 0) {
-            const amount = Math.min(
-              parseFloat(balance.amount),
-              config.tradeAmount,
-            );
-            // Transfer to a burn address to simulate selling
-            const burnAddress = new PublicKey(
-              "1111111111111111111111111111111111111111111",
-            );
-            const sig = await this.tokenService.transferSpl(
-              wallet,
-              config.targetMint,
-              wallet,
-              burnAddress,
-              BigInt(Math.round(amount * 1e6)),
-            );
-            signatures.push(sig);
-          }
-        } catch (error) {
-          console.error("Trade execution failed:", error);
-        }
+  /**
+   * Swaps `tradeAmount × price` of the quote mint into the target mint, or
+   * mints `tradeAmount` to simulate a buy when no swap is configured (which
+   * only works if the wallet owns the mint authority). A swap quoted to
+   * receive nothing is skipped, and one that filled nothing fails the trade.
+   */
+  private async buy(price: number): Promise<Trade | undefined> {
+    const { wallet, config } = this;
+    if (config.swap) {
+      const { adapter, quoteMint, slippageBps } = config.swap;
+      const quote = await adapter.quote({
+        inputMint: quoteMint,
+        outputMint: config.targetMint,
+        // A computed spend: round down rather than reject extra digits
+        amountIn: TokenAmount.floor(
+          config.tradeAmount * price,
+          await this.tokenService.getMintDecimals(quoteMint),
+        ),
+        slippageBps,
+      });
+      if (quote.expectedOut === 0n) {
+        return undefined;
       }
-
-      if (config.intervalMs > 0 && i < config.iterations - 1 && this.running) {
-        await sleep(config.intervalMs);
+      const fill = await adapter.executeSwap(wallet, quote);
+      if (fill.amountOut === 0n) {
+        throw new Error(
+          `Swap ${fill.signature} received no ${config.targetMint.toBase58()}`,
+        );
       }
+      const amount = toUiAmount(fill.amountOut, quote.outputDecimals);
+      return {
+        signature: fill.signature,
+        fill: {
+          side: "buy",
+          mint: config.targetMint.toBase58(),
+          amount,
+          price: toUiAmount(fill.amountIn, quote.inputDecimals) / amount,
+          quoteMint: quoteMint.toBase58(),
+          pool: fill.pool,
+        },
+      };
     }
-
-    return signatures;
+    const signature = await this.tokenService.mintSpl(
+      wallet,
+      config.targetMint,
+      wallet.publicKey,
+      TokenAmount.parse(
+        config.tradeAmount,
+        await this.tokenService.getMintDecimals(config.targetMint),
+      ),
+    );
+    return {
+      signature,
+      fill: {
+        side: "buy",
+        mint: config.targetMint.toBase58(),
+        amount: config.tradeAmount,
+        price,
+      },
+    };
   }
 
-  stop(): void {
-    this.running = false;
+  /**
+   * Sells up to `tradeAmount` of the held balance: a swap into the quote
+   * mint, or a burn to simulate a sell when no swap is configured.
+   */
+  private async sell(price: number): Promise<Trade | undefined> {
+    const { wallet, config } = this;
+    const balances = await this.tokenService.getSplBalances(wallet.publicKey);
+    const balance = balances.find(
+      (b) => b.mint === config.targetMint.toBase58(),
+    );
+    if (!balance) {
+      return undefined;
+    }
+    const held = TokenAmount.fromRaw(balance.raw, balance.decimals);
+    if (held.isZero()) {
+      return undefined;
+    }
+    const amount = held.min(
+      TokenAmount.parse(config.tradeAmount, balance.decimals),
+    );
+
+    if (config.swap) {
+      const { adapter, quoteMint, slippageBps } = config.swap;
+      const quote = await adapter.quote({
+        inputMint: config.targetMint,
+        outputMint: quoteMint,
+        amountIn: amount,
+        slippageBps,
+      });
+      const fill = await adapter.executeSwap(wallet, quote);
+      return {
+        signature: fill.signature,
+        fill: {
+          side: "sell",
+          mint: config.targetMint.toBase58(),
+          amount: toUiAmount(fill.amountIn, quote.inputDecimals),
+          price: fill.price,
+          quoteMint: quoteMint.toBase58(),
+          pool: fill.pool,
+        },
+      };
+    }
+    const signature = await this.tokenService.burnSpl(
+      wallet,
+      config.targetMint,
+      amount,
+    );
+    return {
+      signature,
+      fill: {
+        side: "sell",
+        mint: config.targetMint.toBase58(),
+        amount: amount.toNumber(),
+        price,
+      },
+    };
   }
 
-  private evaluateMarket(
-    price: number,
-    config: TradingConfig,
-  ): { action: "BUY" | "SELL" | "HOLD"; reason: string } {
-    if (price < config.buyThreshold) {
+  private evaluateMarket(price: number): {
+    action: "BUY" | "SELL" | "HOLD";
+    reason: string;
+  } {
+    if (price < this.config.buyThreshold) {
       return {
         action: "BUY",
         reason: `Price ${price.toFixed(4)} below buy threshold`,
       };
     }
-    if (price > config.sellThreshold) {
+    if (price > this.config.sellThreshold) {
       return {
         action: "SELL",
         reason: `Price ${price.toFixed(4)} above sell threshold`,
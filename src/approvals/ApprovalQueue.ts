@@ -0,0 +1,224 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { APPROVAL_STORE } from "../config.js";
+import { processAlive } from "../utils/process.js";
+import { TransactionSummary } from "../security/TransactionDecoder.js";
+import { BudgetAsset } from "../security/SpendingBudget.js";
+import { PaperOperationRecord } from "../tokens/PaperTokenService.js";
+
+/** approving: an operator approved it and it is being signed and sent. */
+export type ApprovalStatus =
+  "pending" | "approving" | "approved" | "rejected" | "expired" | "failed";
+
+/** Per-agent settings for when transactions must wait for an operator. */
+export type ApprovalConfig = {
+  /** Park transactions moving more than this (UI units, "SOL" or mint). */
+  thresholds?: Record<BudgetAsset, number>;
+  /** Park transfers to destinations the agent has never sent to. */
+  newDestinations?: boolean;
+  /** "wait" blocks the run until a decision; "skip" moves on. */
+  onPending?: "wait" | "skip";
+};
+
+export type ApprovalItem = {
+  id: string;
+  agentId: string;
+  walletName: string;
+  status: ApprovalStatus;
+  /**
+   * Unsigned transaction, base64. Durable when the wallet has a nonce
+   * account; re-signed with a fresh blockhash otherwise.
+   */
+  transaction?: string;
+  /** Paper operation, applied to the simulated balances once approved. */
+  paper?: PaperOperationRecord;
+  summary: TransactionSummary;
+  outflows: Record<BudgetAsset, number>;
+  destinations: string[];
+  reasons: string[];
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  note?: string;
+  signature?: string;
+  error?: string;
+  /** Process sending it while it is approving. */
+  pid?: number;
+};
+
+/**
+ * Raised when an operator decides an item that does not exist (`status`
+ * undefined) or that is no longer pending.
+ */
+export class ApprovalDecisionError extends Error {
+  constructor(
+    message: string,
+    readonly approvalId: string,
+    readonly status?: ApprovalStatus,
+  ) {
+    super(message);
+    this.name = "ApprovalDecisionError";
+  }
+}
+
+/**
+ * Items this process is sending. An approving item recorded under our pid
+ * but missing here was claimed by an earlier process that got the same id.
+ */
+const sending = new Set<string>();
+
+/**
+ * Persistent queue of transactions waiting for operator approval, stored as
+ * JSON next to the agent registry. Changes are serialized so two operators
+ * deciding the same item cannot both act on it.
+ */
+export class ApprovalQueue {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storePath: string = APPROVAL_STORE) {}
+
+  async enqueue(
+    item: Omit<ApprovalItem, "id" | "status" | "createdAt">,
+  ): Promise<ApprovalItem> {
+    const record: ApprovalItem = {
+      id: randomUUID(),
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      ...item,
+    };
+    return this.change((all) => {
+      all.push(record);
+      return record;
+    });
+  }
+
+  async list(filter?: {
+    status?: ApprovalStatus;
+    agentId?: string;
+  }): Promise<ApprovalItem[]> {
+    const all = await this.change((items) => items, false);
+    return all.filter(
+      (item) =>
+        (!filter?.status || item.status === filter.status) &&
+        (!filter?.agentId || item.agentId === filter.agentId),
+    );
+  }
+
+  async get(id: string): Promise<ApprovalItem | undefined> {
+    const all = await this.change((items) => items, false);
+    return all.find((item) => item.id === id);
+  }
+
+  async update(item: ApprovalItem): Promise<void> {
+    await this.change((all) => {
+      const index = all.findIndex((i) => i.id === item.id);
+      if (index === -1) {
+        throw new Error(`Approval not found: ${item.id}`);
+      }
+      all[index] = item;
+      if (item.status !== "approving") {
+        sending.delete(item.id);
+      }
+    });
+  }
+
+  /**
+   * Moves a pending item to `status` and stamps the decision. Throws if it
+   * is missing or no longer pending, so only one decision ever wins.
+   */
+  async decide(
+    id: string,
+    status: ApprovalStatus,
+    note?: string,
+  ): Promise<ApprovalItem> {
+    return this.change((all) => {
+      const item = all.find((i) => i.id === id);
+      if (!item) {
+        throw new ApprovalDecisionError(`Approval not found: ${id}`, id);
+      }
+      if (item.status !== "pending") {
+        throw new ApprovalDecisionError(
+          `Approval ${id} is already ${item.status}`,
+          id,
+          item.status,
+        );
+      }
+      item.status = status;
+      item.decidedAt = new Date().toISOString();
+      item.note = note;
+      if (status === "approving") {
+        item.pid = process.pid;
+        sending.add(id);
+      }
+      return item;
+    });
+  }
+
+  /**
+   * Reads the queue, expires stale items and applies `fn` once any earlier
+   * change has finished, then writes the queue back if anything changed.
+   */
+  private change<T>(
+    fn: (items: ApprovalItem[]) => T,
+    modifies = true,
+  ): Promise<T> {
+    const write = this.writes.then(async () => {
+      const items = await this.readItems();
+      const expired = this.expireStale(items);
+      const result = fn(items);
+      if (modifies || expired) {
+        await this.writeItems(items);
+      }
+      return result;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Marks pending items past their expiry as expired, and approving items
+   * whose sending process exited as failed; true if any were.
+   */
+  private expireStale(items: ApprovalItem[]): boolean {
+    const now = Date.now();
+    let changed = false;
+    for (const item of items) {
+      if (
+        item.status === "pending" &&
+        new Date(item.expiresAt).getTime() <= now
+      ) {
+        item.status = "expired";
+        item.decidedAt = new Date(now).toISOString();
+        changed = true;
+      }
+      if (
+        item.status === "approving" &&
+        !sending.has(item.id) &&
+        (item.pid === undefined ||
+          item.pid === process.pid ||
+          !processAlive(item.pid))
+      ) {
+        item.status = "failed";
+        item.error = `Process ${item.pid ?? "unknown"} exited while sending; the transaction may still have landed`;
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private async readItems(): Promise<ApprovalItem[]> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf8");
+      return JSON.parse(raw) as ApprovalItem[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeItems(items: ApprovalItem[]): Promise<void> {
+    const dir = path.dirname(this.storePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(this.storePath, JSON.stringify(items, null, 2), "utf8");
+  }
+}
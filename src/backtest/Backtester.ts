@@ -0,0 +1,187 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import {
+  Strategy,
+  StrategyConfig,
+  StrategyDefinition,
+  resolveConfig,
+} from "../strategies/Strategy.js";
+import { StrategyRunner } from "../strategies/StrategyRunner.js";
+import { AgentDecision } from "../agents/Agent.js";
+import { SplBalance } from "../tokens/TokenService.js";
+import { VirtualClock } from "../utils/clock.js";
+import { SeriesPoint } from "./series.js";
+import { SimulatedLedger, SimulatedTrade } from "./SimulatedLedger.js";
+
+export type BacktestOptions = {
+  /** SOL the simulated wallet starts with. */
+  startingSol?: number;
+  /** Flat fee charged per simulated transaction. */
+  feeLamports?: number;
+};
+
+export type BacktestReport = {
+  strategy: string;
+  config: StrategyConfig;
+  points: number;
+  start: string;
+  end: string;
+  startingEquity: number;
+  endingEquity: number;
+  /** Value of balance changes from the series, excluded from PnL. */
+  externalFlows: number;
+  pnl: number;
+  pnlPct: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  fees: number;
+  balances: { sol: number; tokens: SplBalance[] };
+  trades: SimulatedTrade[];
+  decisions: AgentDecision[];
+};
+
+const DEFAULT_STARTING_SOL = 10;
+
+/**
+ * Replays a price/balance series through a strategy, one step per data
+ * point, against a SimulatedLedger and a VirtualClock. Equity is SOL plus
+ * tokens at the current price, measured after every step for drawdown.
+ */
+export class Backtester {
+  constructor(
+    private readonly definition: StrategyDefinition,
+    private readonly options: BacktestOptions = {},
+  ) {}
+
+  async run(
+    series: SeriesPoint[],
+    options: Record<string, unknown> = {},
+  ): Promise<BacktestReport> {
+    if (series.length === 0) {
+      throw new Error("Backtest needs at least one data point");
+    }
+    const config = resolveConfig(this.definition, {
+      ...this.placeholderAddresses(options),
+      ...options,
+      iterations: series.length,
+    });
+    const clock = new VirtualClock(
+      series[0].timestamp ? new Date(series[0].timestamp) : undefined,
+    );
+    const ledger = new SimulatedLedger({
+      startingSol: this.options.startingSol ?? DEFAULT_STARTING_SOL,
+      feeLamports: this.options.feeLamports,
+      clock,
+    });
+    const mintField = this.definition.mintField;
+    const mint = mintField ? (config[mintField] as string) : undefined;
+
+    const strategy = this.definition.create(
+      {
+        agentId: "backtest",
+        wallet: Keypair.generate(),
+        tokenService: ledger,
+        priceFeed: {
+          getPrice: async () => ({
+            price: ledger.price,
+            publishedAt: clock.now(),
+            source: "backtest",
+          }),
+        },
+        clock,
+      },
+      config,
+    );
+
+    let lastBalance = 0;
+    let externalFlows = 0;
+    const observe = (point: SeriesPoint) => {
+      if (point.timestamp) {
+        clock.set(new Date(point.timestamp));
+      }
+      if (point.price !== undefined) {
+        ledger.price = point.price;
+      }
+      // Balance changes between points are flows outside the agent's trades
+      if (mint && point.balance !== undefined) {
+        const before = ledger.tokenBalance(mint);
+        ledger.adjustTokens(mint, point.balance - lastBalance);
+        externalFlows += (ledger.tokenBalance(mint) - before) * ledger.price;
+        lastBalance = point.balance;
+      }
+    };
+    // The first point sets the starting price and balance
+    observe(series[0]);
+    externalFlows = 0;
+    const startingEquity = ledger.equity();
+    const start = clock.now().toISOString();
+
+    let peak = startingEquity;
+    let maxDrawdown = 0;
+    let maxDrawdownPct = 0;
+    const replay: Strategy = {
+      step: async (iteration) => {
+        if (iteration > 0) {
+          observe(series[iteration]);
+        }
+        const decision = await strategy.step(iteration);
+        const equity = ledger.equity();
+        peak = Math.max(peak, equity);
+        if (peak - equity > maxDrawdown) {
+          maxDrawdown = peak - equity;
+          maxDrawdownPct = peak > 0 ? (maxDrawdown / peak) * 100 : 0;
+        }
+        return decision;
+      },
+      stop: () => strategy.stop?.(),
+    };
+
+    const decisions: AgentDecision[] = [];
+    const runner = new StrategyRunner(
+      replay,
+      (decision) => decisions.push(decision),
+      clock,
+    );
+    await runner.run({
+      iterations: series.length,
+      intervalMs: config.intervalMs as number,
+    });
+
+    const trades = ledger.listTrades();
+    const endingEquity = ledger.equity();
+    const pnl = endingEquity - startingEquity - externalFlows;
+    return {
+      strategy: this.definition.name,
+      config,
+      points: series.length,
+      start,
+      end: clock.now().toISOString(),
+      startingEquity,
+      endingEquity,
+      externalFlows,
+      pnl,
+      pnlPct: startingEquity > 0 ? (pnl / startingEquity) * 100 : 0,
+      maxDrawdown,
+      maxDrawdownPct,
+      fees: trades.reduce((sum, trade) => sum + trade.fee, 0),
+      balances: {
+        sol: ledger.solBalance(),
+        tokens: await ledger.getSplBalances(PublicKey.default),
+      },
+      trades,
+      decisions,
+    };
+  }
+
+  /** Throwaway keys for required addresses, since nothing touches the chain. */
+  private placeholderAddresses(
+    options: Record<string, unknown>,
+  ): Record<string, string> {
+    const filled: Record<string, string> = {};
+    for (const [key, field] of Object.entries(this.definition.configSchema)) {
+      if (field.type === "address" && field.required && !(key in options)) {
+        filled[key] = Keypair.generate().publicKey.toBase58();
+      }
+    }
+    return filled;
+  }
+}
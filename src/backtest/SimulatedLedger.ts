@@ -0,0 +1,190 @@
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { SplBalance, TokenOperations } from "../tokens/TokenService.js";
+import { TokenAmount } from "../tokens/TokenAmount.js";
+import { Clock, systemClock } from "../utils/clock.js";
+
+/** A simulated fill or transfer. `value` and `fee` are in SOL. */
+export type SimulatedTrade = {
+  signature: string;
+  timestamp: string;
+  kind: "buy" | "sell" | "transfer";
+  mint?: string;
+  amount: number;
+  price?: number;
+  value: number;
+  fee: number;
+};
+
+const DEFAULT_FEE_LAMPORTS = 5000;
+const DEFAULT_DECIMALS = 6;
+
+/**
+ * In-memory balances standing in for TokenService. Tokens minted to the
+ * wallet are bought and tokens burned or sent away are sold, both at the
+ * current `price` in SOL; every operation pays a flat network fee.
+ */
+export class SimulatedLedger implements TokenOperations {
+  /** SOL per token for fills. */
+  price = 1;
+  private sol: number;
+  private readonly tokens = new Map<string, bigint>();
+  private readonly trades: SimulatedTrade[] = [];
+  private readonly fee: number;
+  private readonly decimals: number;
+  private readonly clock: Clock;
+
+  constructor(options?: {
+    startingSol?: number;
+    feeLamports?: number;
+    decimals?: number;
+    clock?: Clock;
+  }) {
+    this.sol = options?.startingSol ?? 0;
+    this.fee =
+      (options?.feeLamports ?? DEFAULT_FEE_LAMPORTS) / LAMPORTS_PER_SOL;
+    this.decimals = options?.decimals ?? DEFAULT_DECIMALS;
+    this.clock = options?.clock ?? systemClock;
+  }
+
+  async getSplBalances(_owner: PublicKey): Promise<SplBalance[]> {
+    return Array.from(this.tokens.entries()).map(([mint, raw]) => ({
+      mint,
+      amount: TokenAmount.fromRaw(raw, this.decimals).toString(),
+      raw: raw.toString(),
+      decimals: this.decimals,
+      program: "spl-token",
+    }));
+  }
+
+  async getMintDecimals(_mint: PublicKey): Promise<number> {
+    return this.decimals;
+  }
+
+  async transferSol(
+    _from: Keypair,
+    _to: PublicKey,
+    sol: number,
+  ): Promise<string> {
+    this.debitSol(sol + this.fee);
+    return this.record({ kind: "transfer", amount: sol, value: sol });
+  }
+
+  async mintSpl(
+    _payer: Keypair,
+    mint: PublicKey,
+    _destinationOwner: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    amount.assertDecimals(this.decimals);
+    const tokens = amount.toNumber();
+    const value = tokens * this.price;
+    this.debitSol(value + this.fee);
+    this.adjustRaw(mint.toBase58(), amount.raw);
+    return this.record({
+      kind: "buy",
+      mint: mint.toBase58(),
+      amount: tokens,
+      price: this.price,
+      value,
+    });
+  }
+
+  async transferSpl(
+    _payer: Keypair,
+    mint: PublicKey,
+    _fromOwner: Keypair,
+    _toOwner: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    return this.sell(mint, amount);
+  }
+
+  async burnSpl(
+    _owner: Keypair,
+    mint: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    return this.sell(mint, amount);
+  }
+
+  /** Moves a token balance without trading, e.g. flows outside the agent. */
+  adjustTokens(mint: string, delta: number): void {
+    const raw = BigInt(Math.round(delta * 10 ** this.decimals));
+    const next = (this.tokens.get(mint) ?? 0n) + raw;
+    this.tokens.set(mint, next > 0n ? next : 0n);
+  }
+
+  solBalance(): number {
+    return this.sol;
+  }
+
+  tokenBalance(mint: string): number {
+    return this.toUi(this.tokens.get(mint) ?? 0n);
+  }
+
+  /** SOL plus every token valued at the current price. */
+  equity(): number {
+    let tokens = 0;
+    for (const raw of this.tokens.values()) {
+      tokens += this.toUi(raw);
+    }
+    return this.sol + tokens * this.price;
+  }
+
+  listTrades(): SimulatedTrade[] {
+    return [...this.trades];
+  }
+
+  private sell(mint: PublicKey, amount: TokenAmount): string {
+    amount.assertDecimals(this.decimals);
+    const key = mint.toBase58();
+    const held = this.tokens.get(key) ?? 0n;
+    if (amount.raw > held) {
+      throw new Error(
+        `Insufficient token balance: ${amount} > ${TokenAmount.fromRaw(held, this.decimals)}`,
+      );
+    }
+    this.debitSol(this.fee);
+    this.adjustRaw(key, -amount.raw);
+    const tokens = amount.toNumber();
+    const value = tokens * this.price;
+    this.sol += value;
+    return this.record({
+      kind: "sell",
+      mint: key,
+      amount: tokens,
+      price: this.price,
+      value,
+    });
+  }
+
+  private debitSol(sol: number): void {
+    if (sol > this.sol + 1e-12) {
+      throw new Error(
+        `Insufficient SOL: need ${sol.toFixed(6)}, have ${this.sol.toFixed(6)}`,
+      );
+    }
+    this.sol -= sol;
+  }
+
+  private adjustRaw(mint: string, delta: bigint): void {
+    this.tokens.set(mint, (this.tokens.get(mint) ?? 0n) + delta);
+  }
+
+  private record(
+    trade: Omit<SimulatedTrade, "signature" | "timestamp" | "fee">,
+  ): string {
+    const signature = `sim-${this.trades.length + 1}`;
+    this.trades.push({
+      signature,
+      timestamp: this.clock.now().toISOString(),
+      ...trade,
+      fee: this.fee,
+    });
+    return signature;
+  }
+
+  private toUi(raw: bigint): number {
+    return Number(raw) / 10 ** this.decimals;
+  }
+}
@@ -0,0 +1,101 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** One observation of a replayed series. */
+export type SeriesPoint = {
+  timestamp?: string;
+  price?: number;
+  /** Price confidence interval, used by file price feeds. */
+  confidence?: number;
+  balance?: number;
+};
+
+const TIMESTAMP_COLUMNS = ["timestamp", "time", "date"];
+
+/** ISO string for an ISO date or epoch seconds/milliseconds. */
+function toTimestamp(value: unknown, row: number): string {
+  const numeric = typeof value === "number" ? value : Number(value);
+  const date = Number.isFinite(numeric)
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Row ${row}: invalid timestamp "${value}"`);
+  }
+  return date.toISOString();
+}
+
+function toNumber(value: unknown, column: string, row: number): number {
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`Row ${row}: invalid ${column} "${value}"`);
+  }
+  return number;
+}
+
+function toPoint(record: Record<string, unknown>, row: number): SeriesPoint {
+  const point: SeriesPoint = {};
+  const timeKey = TIMESTAMP_COLUMNS.find(
+    (key) => record[key] !== undefined && record[key] !== "",
+  );
+  if (timeKey) {
+    point.timestamp = toTimestamp(record[timeKey], row);
+  }
+  if (record.price !== undefined && record.price !== "") {
+    point.price = toNumber(record.price, "price", row);
+  }
+  if (record.confidence !== undefined && record.confidence !== "") {
+    point.confidence = toNumber(record.confidence, "confidence", row);
+  }
+  if (record.balance !== undefined && record.balance !== "") {
+    point.balance = toNumber(record.balance, "balance", row);
+  }
+  if (point.price === undefined && point.balance === undefined) {
+    throw new Error(`Row ${row}: needs a price or a balance`);
+  }
+  return point;
+}
+
+/** Parses CSV with a header row naming timestamp, price and/or balance. */
+export function parseCsvSeries(text: string): SeriesPoint[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) {
+    return [];
+  }
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const record = Object.fromEntries(
+      header.map((column, j) => [column, cells[j]]),
+    );
+    return toPoint(record, i + 1);
+  });
+}
+
+/** Parses a JSON array of prices or of { timestamp, price, balance } rows. */
+export function parseJsonSeries(text: string): SeriesPoint[] {
+  const data = JSON.parse(text) as unknown;
+  if (!Array.isArray(data)) {
+    throw new Error("JSON series must be an array");
+  }
+  return data.map((entry, i) =>
+    typeof entry === "number"
+      ? toPoint({ price: entry }, i + 1)
+      : toPoint(entry as Record<string, unknown>, i + 1),
+  );
+}
+
+/** Loads a series from a .json or .csv file. */
+export async function loadSeries(filePath: string): Promise<SeriesPoint[]> {
+  const text = await fs.readFile(filePath, "utf8");
+  const series =
+    path.extname(filePath).toLowerCase() === ".json"
+      ? parseJsonSeries(text)
+      : parseCsvSeries(text);
+  if (series.length === 0) {
+    throw new Error(`No data points in ${filePath}`);
+  }
+  return series;
+}
@@ -1,18 +1,44 @@
+import fs from "node:fs/promises";
+import readline from "node:readline/promises";
 import { Command } from "commander";
 import { PublicKey } from "@solana/web3.js";
 import { WalletService } from "../wallet/WalletService.js";
-import { TokenService } from "../tokens/TokenService.js";
+import {
+  MintAuthorityKind,
+  TokenService,
+  describeAuthorityChange,
+  isIrreversibleAuthorityChange,
+} from "../tokens/TokenService.js";
 import { Orchestrator } from "../orchestrator/Orchestrator.js";
 import { sleep } from "../utils/sleep.js";
+import { PolicyViolationError } from "../security/errors.js";
+import { RUN_CONFIG_SCHEMA } from "../strategies/Strategy.js";
+import { loadSeries } from "../backtest/series.js";
 
 const program = new Command();
 
 const parseNumber = (value: string): number => Number(value);
-const toBaseUnits = (amount: number, decimals?: number): bigint => {
-  if (decimals === undefined) {
-    return BigInt(Math.round(amount));
+
+/** Asks before an irreversible step; `--yes` skips the prompt. */
+const confirmIrreversible = async (
+  warning: string,
+  yes?: boolean,
+): Promise<void> => {
+  if (yes) {
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(`${warning} Re-run with --yes to confirm.`);
+  }
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  const answer = await rl.question(`${warning}\nType "yes" to continue: `);
+  rl.close();
+  if (answer.trim() !== "yes") {
+    throw new Error("Aborted");
   }
-  return BigInt(Math.round(amount * 10 ** decimals));
 };
 
 program
@@ -36,7 +62,7 @@ program
   .requiredOption("-n, --name <name>", "Wallet name")
   .action(async ({ name }) => {
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(name);
     const balance = await tokenService.getSolBalance(wallet.publicKey);
     console.log(JSON.stringify({ name, balanceSol: balance }, null, 2));
@@ -50,7 +76,7 @@ program
   .option("-t, --timeout <ms>", "Timeout in ms", parseNumber, 120000)
   .action(async ({ name, min, interval, timeout }) => {
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(name);
     const deadline = Date.now() + Math.max(timeout, 0);
 
@@ -73,18 +99,39 @@ program
   .requiredOption("-s, --sol <sol>", "Amount of SOL", parseNumber)
   .action(async ({ name, sol }) => {
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(name);
     const signature = await tokenService.requestAirdrop(wallet.publicKey, sol);
     console.log(JSON.stringify({ name, signature }, null, 2));
   });
 
+program
+  .command("wallet:nonce:create")
+  .requiredOption("-n, --name <name>", "Wallet name")
+  .action(async ({ name }) => {
+    const walletService = new WalletService();
+    const wallet = await walletService.loadWallet(name);
+    const { signature, status } =
+      await walletService.createNonceAccount(wallet);
+    console.log(JSON.stringify({ name, signature, nonce: status }, null, 2));
+  });
+
+program
+  .command("wallet:nonce:status")
+  .requiredOption("-n, --name <name>", "Wallet name")
+  .action(async ({ name }) => {
+    const walletService = new WalletService();
+    const wallet = await walletService.loadWallet(name);
+    const status = await walletService.getNonceStatus(wallet.publicKey);
+    console.log(JSON.stringify({ name, nonce: status }, null, 2));
+  });
+
 program
   .command("token:balances")
   .requiredOption("-n, --name <name>", "Wallet name")
   .action(async ({ name }) => {
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(name);
     const balances = await tokenService.getSplBalances(wallet.publicKey);
     console.log(JSON.stringify({ name, spl: balances }, null, 2));
@@ -94,13 +141,146 @@ program
   .command("token:create-mint")
   .requiredOption("-n, --name <name>", "Wallet name")
   .option("-d, --decimals <decimals>", "Decimals", parseNumber, 6)
-  .action(async ({ name, decimals }) => {
+  .option("--mint-authority <pubkey>", "Mint authority (defaults to wallet)")
+  .option("--freeze-authority <pubkey>", "Freeze authority (defaults to none)")
+  .option("--token-2022", "Create a Token-2022 mint")
+  .option(
+    "--transfer-fee <bps>",
+    "Token-2022 transfer fee in basis points",
+    parseNumber,
+  )
+  .option(
+    "--max-fee <amount>",
+    "Transfer fee cap in base units (defaults to no cap)",
+  )
+  .option(
+    "--metadata-pointer [address]",
+    "Token-2022 metadata pointer (defaults to the mint itself)",
+  )
+  .option(
+    "--interest-rate <bps>",
+    "Token-2022 interest rate in basis points per year",
+    parseNumber,
+  )
+  .option("--token-name <name>", "Token name, written as on-chain metadata")
+  .option("--symbol <symbol>", "Token symbol, written as on-chain metadata")
+  .option("--uri <uri>", "Metadata JSON URI", "")
+  .action(async (options) => {
+    const { name, decimals, mintAuthority, freezeAuthority } = options;
+    if (Boolean(options.tokenName) !== Boolean(options.symbol)) {
+      throw new Error("Pass both --token-name and --symbol to add metadata");
+    }
+    const metadata = options.tokenName
+      ? { name: options.tokenName, symbol: options.symbol, uri: options.uri }
+      : undefined;
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(name);
-    const mint = await tokenService.createSplMint(wallet, decimals);
+    const token2022 =
+      options.token2022 ||
+      options.transferFee !== undefined ||
+      options.metadataPointer !== undefined ||
+      options.interestRate !== undefined
+        ? {
+            transferFee:
+              options.transferFee !== undefined
+                ? {
+                    basisPoints: options.transferFee,
+                    maxFee:
+                      options.maxFee !== undefined
+                        ? BigInt(options.maxFee)
+                        : undefined,
+                  }
+                : undefined,
+            metadataPointer:
+              options.metadataPointer !== undefined
+                ? {
+                    metadataAddress:
+                      typeof options.metadataPointer === "string"
+                        ? new PublicKey(options.metadataPointer)
+                        : undefined,
+                  }
+                : undefined,
+            interestRateBps: options.interestRate,
+          }
+        : undefined;
+    const mint = await tokenService.createSplMint(wallet, decimals, {
+      mintAuthority: mintAuthority ? new PublicKey(mintAuthority) : undefined,
+      freezeAuthority: freezeAuthority
+        ? new PublicKey(freezeAuthority)
+        : undefined,
+      token2022,
+      metadata,
+    });
     console.log(
-      JSON.stringify({ name, mint: mint.toBase58(), decimals }, null, 2),
+      JSON.stringify(
+        {
+          name,
+          mint: mint.toBase58(),
+          decimals,
+          program: token2022 || metadata ? "token-2022" : "spl-token",
+          ...(metadata && { metadata }),
+        },
+        null,
+        2,
+      ),
+    );
+  });
+
+program
+  .command("token:info")
+  .requiredOption("-m, --mint <mint>", "Mint address")
+  .action(async ({ mint }) => {
+    const tokenService = new TokenService(new WalletService());
+    const info = await tokenService.getMintInfo(new PublicKey(mint));
+    console.log(JSON.stringify(info, null, 2));
+  });
+
+program
+  .command("token:authority")
+  .requiredOption("-n, --name <name>", "Wallet holding the authority")
+  .requiredOption("-m, --mint <mint>", "Mint address")
+  .requiredOption("-t, --type <type>", "Authority: mint or freeze")
+  .option("--to <pubkey>", "New authority")
+  .option("--revoke", "Remove the authority permanently")
+  .option("-y, --yes", "Skip the confirmation for irreversible changes")
+  .action(async ({ name, mint, type, to, revoke, yes }) => {
+    if (type !== "mint" && type !== "freeze") {
+      throw new Error('--type must be "mint" or "freeze"');
+    }
+    if (Boolean(to) === Boolean(revoke)) {
+      throw new Error("Pass exactly one of --to or --revoke");
+    }
+    const walletService = new WalletService();
+    const tokenService = new TokenService(walletService);
+    const wallet = await walletService.loadWallet(name);
+    const mintKey = new PublicKey(mint);
+    const kind = type as MintAuthorityKind;
+    const newAuthority = revoke ? null : new PublicKey(to);
+    if (isIrreversibleAuthorityChange(wallet.publicKey, newAuthority)) {
+      await confirmIrreversible(
+        describeAuthorityChange(kind, mintKey, newAuthority),
+        yes,
+      );
+    }
+    const signature = await tokenService.setMintAuthority(
+      wallet,
+      mintKey,
+      kind,
+      newAuthority,
+    );
+    console.log(
+      JSON.stringify(
+        {
+          name,
+          mint,
+          type,
+          authority: newAuthority?.toBase58() ?? null,
+          signature,
+        },
+        null,
+        2,
+      ),
     );
   });
 
@@ -108,17 +288,22 @@ program
   .command("token:mint")
   .requiredOption("-n, --name <name>", "Wallet name")
   .requiredOption("-m, --mint <mint>", "Mint address")
-  .requiredOption("-a, --amount <amount>", "Amount", parseNumber)
-  .option("-d, --decimals <decimals>", "Decimals", parseNumber)
+  .requiredOption("-a, --amount <amount>", "Amount, e.g. 1.5")
+  .option(
+    "-d, --decimals <decimals>",
+    "Expected mint decimals (checked against the mint)",
+    parseNumber,
+  )
   .action(async ({ name, mint, amount, decimals }) => {
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(name);
+    const mintKey = new PublicKey(mint);
     const signature = await tokenService.mintSpl(
       wallet,
-      new PublicKey(mint),
+      mintKey,
       wallet.publicKey,
-      toBaseUnits(amount, decimals),
+      await tokenService.parseAmount(mintKey, amount, decimals),
     );
     console.log(JSON.stringify({ name, mint, signature }, null, 2));
   });
@@ -128,32 +313,92 @@ program
   .requiredOption("-f, --from <name>", "Wallet name")
   .requiredOption("-t, --to <pubkey>", "Destination pubkey")
   .requiredOption("-m, --mint <mint>", "Mint address")
-  .requiredOption("-a, --amount <amount>", "Amount", parseNumber)
-  .option("-d, --decimals <decimals>", "Decimals", parseNumber)
+  .requiredOption("-a, --amount <amount>", "Amount, e.g. 1.5")
+  .option(
+    "-d, --decimals <decimals>",
+    "Expected mint decimals (checked against the mint)",
+    parseNumber,
+  )
   .action(async ({ from, to, mint, amount, decimals }) => {
     const walletService = new WalletService();
-    const tokenService = new TokenService(walletService.getConnection());
+    const tokenService = new TokenService(walletService);
     const wallet = await walletService.loadWallet(from);
+    const mintKey = new PublicKey(mint);
     const signature = await tokenService.transferSpl(
       wallet,
-      new PublicKey(mint),
+      mintKey,
       wallet,
       new PublicKey(to),
-      toBaseUnits(amount, decimals),
+      await tokenService.parseAmount(mintKey, amount, decimals),
     );
     console.log(JSON.stringify({ from, to, mint, signature }, null, 2));
   });
 
+program
+  .command("token:burn")
+  .requiredOption("-n, --name <name>", "Wallet name")
+  .requiredOption("-m, --mint <mint>", "Mint address")
+  .requiredOption("-a, --amount <amount>", "Amount, e.g. 1.5")
+  .option(
+    "-d, --decimals <decimals>",
+    "Expected mint decimals (checked against the mint)",
+    parseNumber,
+  )
+  .action(async ({ name, mint, amount, decimals }) => {
+    const walletService = new WalletService();
+    const tokenService = new TokenService(walletService);
+    const wallet = await walletService.loadWallet(name);
+    const mintKey = new PublicKey(mint);
+    const signature = await tokenService.burnSpl(
+      wallet,
+      mintKey,
+      await tokenService.parseAmount(mintKey, amount, decimals),
+    );
+    console.log(JSON.stringify({ name, mint, signature }, null, 2));
+  });
+
+program
+  .command("token:close-account")
+  .requiredOption("-n, --name <name>", "Wallet name")
+  .requiredOption("-m, --mint <mint>", "Mint address")
+  .option("-t, --to <pubkey>", "Rent destination (defaults to the wallet)")
+  .action(async ({ name, mint, to }) => {
+    const walletService = new WalletService();
+    const tokenService = new TokenService(walletService);
+    const wallet = await walletService.loadWallet(name);
+    const signature = await tokenService.closeTokenAccount(
+      wallet,
+      new PublicKey(mint),
+      to ? new PublicKey(to) : undefined,
+    );
+    console.log(JSON.stringify({ name, mint, signature }, null, 2));
+  });
+
 program
   .command("agent:spawn")
   .requiredOption("-s, --strategy <strategy>", "Strategy name")
   .option("-n, --name <name>", "Wallet name")
-  .action(async ({ strategy, name }) => {
+  .option("--paper", "Simulate balances instead of using devnet")
+  .action(async ({ strategy, name, paper }) => {
     const orchestrator = new Orchestrator();
-    const record = await orchestrator.spawnAgent(strategy, name);
+    const record = await orchestrator.spawnAgent(
+      strategy,
+      name,
+      undefined,
+      paper ? "paper" : "live",
+    );
     console.log(JSON.stringify(record, null, 2));
   });
 
+program
+  .command("agent:go-live")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .action(async ({ id }) => {
+    const orchestrator = new Orchestrator();
+    const record = await orchestrator.goLive(id);
+    console.log(JSON.stringify({ id, mode: record.mode }, null, 2));
+  });
+
 program.command("agent:list").action(async () => {
   const orchestrator = new Orchestrator();
   const agents = await orchestrator.listAgents();
@@ -189,8 +434,8 @@ program
   .option("-p, --hold <prob>", "Hold probability (0-1)", parseNumber, 0.6)
   .action(async ({ id, to, sol, iterations, interval, hold }) => {
     const orchestrator = new Orchestrator();
-    const signatures = await orchestrator.runAgentLoop(id, {
-      to: new PublicKey(to),
+    const signatures = await orchestrator.runStrategy(id, "simple_transfer", {
+      to,
       sol,
       iterations,
       intervalMs: interval,
@@ -237,15 +482,36 @@ program
   .option("-a, --amount <amount>", "Trade amount", parseNumber, 1.0)
   .option("-n, --iterations <count>", "Number of iterations", parseNumber, 5)
   .option("-t, --interval <ms>", "Interval in ms", parseNumber, 3000)
-  .action(async ({ id, mint, buy, sell, amount, iterations, interval }) => {
+  .option(
+    "-f, --feed <feed>",
+    "Price feed: mock, file:<path>, http(s) URL or pyth:<account>",
+    "mock",
+  )
+  .option("--max-age <ms>", "Hold when the price is older", parseNumber)
+  .option(
+    "--max-confidence <ratio>",
+    "Hold when confidence exceeds this fraction of the price",
+    parseNumber,
+  )
+  .option("-p, --pool <pool>", "Constant-product swap pool to trade through")
+  .option("-q, --quote-mint <mint>", "Mint paid and received (with --pool)")
+  .option("--slippage <bps>", "Slippage limit in basis points", parseNumber)
+  .action(async (options) => {
+    const { id, mint, buy, sell, amount, iterations, interval } = options;
     const orchestrator = new Orchestrator();
-    const signatures = await orchestrator.runTradingAgent(id, {
-      targetMint: new PublicKey(mint),
+    const signatures = await orchestrator.runStrategy(id, "trading", {
+      targetMint: mint,
       buyThreshold: buy,
       sellThreshold: sell,
       tradeAmount: amount,
       iterations,
       intervalMs: interval,
+      priceFeed: options.feed,
+      maxPriceAgeMs: options.maxAge,
+      maxConfidence: options.maxConfidence,
+      pool: options.pool,
+      quoteMint: options.quoteMint,
+      slippageBps: options.slippage,
     });
     console.log(
       JSON.stringify({ id, strategy: "trading", signatures }, null, 2),
@@ -263,8 +529,8 @@ program
   .option("-t, --interval <ms>", "Interval in ms", parseNumber, 3000)
   .action(async ({ id, mint, min, max, amount, iterations, interval }) => {
     const orchestrator = new Orchestrator();
-    const signatures = await orchestrator.runLiquidityAgent(id, {
-      poolMint: new PublicKey(mint),
+    const signatures = await orchestrator.runStrategy(id, "liquidity", {
+      poolMint: mint,
       minBalance: min,
       maxBalance: max,
       rebalanceAmount: amount,
@@ -276,4 +542,389 @@ program
     );
   });
 
-program.parseAsync();
+program.command("strategy:list").action(async () => {
+  const orchestrator = new Orchestrator();
+  const strategies = await orchestrator.listStrategies();
+  console.log(
+    JSON.stringify(
+      strategies.map(({ name, aliases, description, configSchema }) => ({
+        name,
+        aliases: aliases ?? [],
+        description,
+        configSchema: { ...RUN_CONFIG_SCHEMA, ...configSchema },
+      })),
+      null,
+      2,
+    ),
+  );
+});
+
+program
+  .command("agent:strategy")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .option("-n, --name <strategy>", "Strategy name (defaults to the agent's)")
+  .option("-c, --config <json>", "Strategy options as JSON", "{}")
+  .action(async ({ id, name, config }) => {
+    const orchestrator = new Orchestrator();
+    const agent = await orchestrator.getAgent(id);
+    if (!agent) {
+      throw new Error(`Agent not found: ${id}`);
+    }
+    const { run, done } = await orchestrator.startRun(
+      id,
+      name ?? agent.strategy,
+      JSON.parse(config),
+    );
+    const signatures = await done;
+    console.log(
+      JSON.stringify(
+        { id, strategy: run.strategy, runId: run.id, signatures },
+        null,
+        2,
+      ),
+    );
+  });
+
+program
+  .command("strategy:backtest")
+  .requiredOption("-s, --strategy <name>", "Registered strategy name")
+  .requiredOption("-f, --file <path>", "Price/balance series (.csv or .json)")
+  .option("-c, --config <json>", "Strategy options as JSON", "{}")
+  .option("--sol <amount>", "Starting SOL balance", parseNumber, 10)
+  .option("--fee <lamports>", "Fee per transaction", parseNumber, 5000)
+  .action(async ({ strategy, file, config, sol, fee }) => {
+    const orchestrator = new Orchestrator();
+    const series = await loadSeries(file);
+    const report = await orchestrator.backtest(
+      strategy,
+      series,
+      JSON.parse(config),
+      { startingSol: sol, feeLamports: fee },
+    );
+    console.log(JSON.stringify(report, null, 2));
+  });
+
+program
+  .command("agent:limits")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .option("-a, --asset <asset>", "Budget asset: SOL or a mint address", "SOL")
+  .option("--per-tx <amount>", "Max per transaction", parseNumber)
+  .option("--per-hour <amount>", "Max per rolling hour", parseNumber)
+  .option("--per-day <amount>", "Max per rolling day", parseNumber)
+  .option("--per-week <amount>", "Max per rolling week", parseNumber)
+  .option("--lifetime <sol>", "Lifetime SOL spending limit", parseNumber)
+  .option("--clear", "Remove the budget for the asset")
+  .action(
+    async ({ id, asset, perTx, perHour, perDay, perWeek, lifetime, clear }) => {
+      const orchestrator = new Orchestrator();
+      if (lifetime !== undefined) {
+        await orchestrator.setSpendingLimit(id, lifetime);
+      }
+      if (clear) {
+        await orchestrator.removeBudget(id, asset);
+      } else if (
+        [perTx, perHour, perDay, perWeek].some((v) => v !== undefined)
+      ) {
+        await orchestrator.setBudget(id, {
+          asset,
+          perTransaction: perTx,
+          perHour,
+          perDay,
+          perWeek,
+        });
+      }
+      const report = await orchestrator.getBudgetReport(id);
+      console.log(JSON.stringify(report, null, 2));
+    },
+  );
+
+program
+  .command("agent:policy")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .option("-f, --file <path>", "JSON policy document to apply")
+  .option("--clear", "Remove the agent policy")
+  .action(async ({ id, file, clear }) => {
+    const orchestrator = new Orchestrator();
+    if (clear) {
+      await orchestrator.setPolicy(id, {});
+    } else if (file) {
+      const policy = JSON.parse(await fs.readFile(file, "utf8"));
+      await orchestrator.setPolicy(id, policy);
+    }
+    const policy = await orchestrator.getPolicy(id);
+    console.log(JSON.stringify({ id, policy }, null, 2));
+  });
+
+program
+  .command("agent:approval")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .option("--threshold-sol <sol>", "Park transactions above this", parseNumber)
+  .option("--new-destinations", "Park transfers to unseen destinations")
+  .option("--mode <mode>", "On pending: wait or skip", "skip")
+  .action(async ({ id, thresholdSol, newDestinations, mode }) => {
+    const orchestrator = new Orchestrator();
+    const record = await orchestrator.setApprovalConfig(id, {
+      thresholds:
+        thresholdSol !== undefined ? { SOL: thresholdSol } : undefined,
+      newDestinations: Boolean(newDestinations),
+      onPending: mode,
+    });
+    console.log(JSON.stringify({ id, approval: record.approval }, null, 2));
+  });
+
+program
+  .command("agent:recovery")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .requiredOption("-p, --policy <policy>", "resume, fail or wait")
+  .action(async ({ id, policy }) => {
+    const orchestrator = new Orchestrator();
+    const record = await orchestrator.setRecoveryPolicy(id, policy);
+    console.log(JSON.stringify({ id, recovery: record.recovery }, null, 2));
+  });
+
+program
+  .command("agent:fees")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .option(
+    "--percentile <p>",
+    "Percentile of recent priority fees to bid (0-100)",
+    parseNumber,
+  )
+  .option(
+    "--max-lamports <lamports>",
+    "Most priority fee one transaction may pay",
+    parseNumber,
+  )
+  .action(async ({ id, percentile, maxLamports }) => {
+    const orchestrator = new Orchestrator();
+    const record = await orchestrator.setFeePolicy(id, {
+      percentile,
+      maxLamports,
+    });
+    console.log(JSON.stringify({ id, fees: record.fees }, null, 2));
+  });
+
+program
+  .command("run:list")
+  .option("-i, --id <id>", "Agent id")
+  .option(
+    "--status <status>",
+    "running, completed, cancelled, failed or interrupted",
+  )
+  .action(async ({ id, status }) => {
+    const orchestrator = new Orchestrator();
+    const runs = await orchestrator.listRuns({ agentId: id, status });
+    console.log(
+      JSON.stringify(
+        runs.map(({ decisions, ...run }) => ({
+          ...run,
+          decisions: decisions.length,
+        })),
+        null,
+        2,
+      ),
+    );
+  });
+
+program.command("run:recover").action(async () => {
+  const orchestrator = new Orchestrator();
+  const runs = await orchestrator.recoverRuns();
+  console.log(
+    JSON.stringify(
+      runs.map((run) => ({
+        runId: run.id,
+        agentId: run.agentId,
+        status: run.status,
+      })),
+      null,
+      2,
+    ),
+  );
+});
+
+program
+  .command("run:resume")
+  .requiredOption("-r, --run <runId>", "Run id")
+  .action(async ({ run: runId }) => {
+    const orchestrator = new Orchestrator();
+    const { run, done } = await orchestrator.resumeRun(runId);
+    const signatures = await done;
+    console.log(
+      JSON.stringify(
+        { runId, agentId: run.agentId, status: run.status, signatures },
+        null,
+        2,
+      ),
+    );
+  });
+
+program
+  .command("run:cancel")
+  .requiredOption("-r, --run <runId>", "Run id")
+  .action(async ({ run: runId }) => {
+    const orchestrator = new Orchestrator();
+    const run = await orchestrator.cancelRun(runId);
+    console.log(JSON.stringify({ runId, status: run.status }, null, 2));
+  });
+
+program
+  .command("schedule:add")
+  .requiredOption("-i, --id <id>", "Agent id")
+  .requiredOption("-s, --strategy <name>", "Registered strategy name")
+  .requiredOption(
+    "-c, --config <json>",
+    'Strategy options, e.g. \'{"targetMint":"<mint>","iterations":5}\'',
+  )
+  .option("--cron <expression>", "Cron expression (UTC), e.g. '0 */4 * * *'")
+  .option("--every <ms>", "Fixed interval in ms", parseNumber)
+  .option("--paused", "Create the schedule disabled")
+  .action(async ({ id, strategy, config, cron, every, paused }) => {
+    const orchestrator = new Orchestrator();
+    const schedule = await orchestrator.addSchedule({
+      agentId: id,
+      strategy,
+      config: JSON.parse(config),
+      cron,
+      intervalMs: every,
+      enabled: !paused,
+    });
+    console.log(JSON.stringify(schedule, null, 2));
+  });
+
+program
+  .command("schedule:list")
+  .option("-i, --id <id>", "Agent id")
+  .action(async ({ id }) => {
+    const orchestrator = new Orchestrator();
+    const schedules = await orchestrator.listSchedules(id);
+    console.log(JSON.stringify(schedules, null, 2));
+  });
+
+program
+  .command("schedule:remove")
+  .requiredOption("--schedule <id>", "Schedule id")
+  .action(async ({ schedule }) => {
+    const orchestrator = new Orchestrator();
+    await orchestrator.removeSchedule(schedule);
+    console.log(JSON.stringify({ id: schedule, removed: true }, null, 2));
+  });
+
+program
+  .command("schedule:start")
+  .requiredOption("--schedule <id>", "Schedule id")
+  .action(async ({ schedule }) => {
+    const orchestrator = new Orchestrator();
+    const updated = await orchestrator.setScheduleEnabled(schedule, true);
+    console.log(JSON.stringify(updated, null, 2));
+  });
+
+program
+  .command("schedule:stop")
+  .requiredOption("--schedule <id>", "Schedule id")
+  .action(async ({ schedule }) => {
+    const orchestrator = new Orchestrator();
+    const updated = await orchestrator.setScheduleEnabled(schedule, false);
+    console.log(JSON.stringify(updated, null, 2));
+  });
+
+program.command("schedule:run").action(async () => {
+  // Runs due schedules in the foreground (the dashboard server does the same)
+  const orchestrator = new Orchestrator();
+  orchestrator.getEventBus().on("*", ({ event, payload }) => {
+    console.log(JSON.stringify({ event, payload }));
+  });
+  orchestrator.startScheduler();
+  console.log(JSON.stringify({ scheduler: "running" }));
+});
+
+program
+  .command("approval:list")
+  .option("-s, --status <status>", "Filter by status", "pending")
+  .option("-i, --id <id>", "Filter by agent id")
+  .action(async ({ status, id }) => {
+    const orchestrator = new Orchestrator();
+    const approvals = await orchestrator.listApprovals({
+      status: status === "all" ? undefined : status,
+      agentId: id,
+    });
+    console.log(
+      JSON.stringify(
+        approvals.map(({ transaction: _tx, ...rest }) => rest),
+        null,
+        2,
+      ),
+    );
+  });
+
+program
+  .command("approval:approve")
+  .requiredOption("-i, --id <id>", "Approval id")
+  .option("--note <note>", "Operator note")
+  .action(async ({ id, note }) => {
+    const orchestrator = new Orchestrator();
+    const approval = await orchestrator.approveTransaction(id, note);
+    console.log(
+      JSON.stringify(
+        {
+          id,
+          status: approval.status,
+          signature: approval.signature,
+          error: approval.error,
+        },
+        null,
+        2,
+      ),
+    );
+  });
+
+program
+  .command("approval:reject")
+  .requiredOption("-i, --id <id>", "Approval id")
+  .option("--note <note>", "Reason for rejecting")
+  .action(async ({ id, note }) => {
+    const orchestrator = new Orchestrator();
+    const approval = await orchestrator.rejectTransaction(id, note);
+    console.log(JSON.stringify({ id, status: approval.status }, null, 2));
+  });
+
+program
+  .command("tx:list")
+  .option("-i, --id <id>", "Filter by agent id")
+  .option("-n, --name <name>", "Filter by wallet name")
+  .option("-k, --kind <kind>", "Filter by kind (sol_transfer, spl_mint, ...)")
+  .option("-s, --status <status>", "Filter by status")
+  .option("-m, --mint <mint>", "Filter by mint address")
+  .option("--since <iso>", "Only entries created at or after this time")
+  .option("--until <iso>", "Only entries created at or before this time")
+  .option("-l, --limit <count>", "Max entries", parseNumber, 50)
+  .action(async ({ id, name, kind, status, mint, since, until, limit }) => {
+    const orchestrator = new Orchestrator();
+    const wallet = name
+      ? (await new WalletService().loadWallet(name)).publicKey.toBase58()
+      : undefined;
+    const transactions = await orchestrator.listTransactions({
+      agentId: id,
+      wallet,
+      kind,
+      status,
+      mint,
+      since,
+      until,
+      limit,
+    });
+    console.log(JSON.stringify(transactions, null, 2));
+  });
+
+program.parseAsync().catch((error) => {
+  if (error instanceof PolicyViolationError) {
+    console.error(
+      JSON.stringify(
+        { error: error.message, violation: error.violation },
+        null,
+        2,
+      ),
+    );
+    process.exit(1);
+  }
+  throw error;
+});
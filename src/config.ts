@@ -20,3 +20,79 @@ export const PROGRAM_ALLOWLIST = process.env.PROGRAM_ALLOWLIST
 
 // Kora RPC endpoint (optional)
 export const KORA_RPC_URL = process.env.KORA_RPC_URL ?? "";
+
+// Transaction ledger storage
+export const LEDGER_STORE =
+  process.env.LEDGER_STORE ?? path.join("data", "ledger.json");
+
+// Approval queue for high-value or first-time-destination transactions
+export const APPROVAL_STORE =
+  process.env.APPROVAL_STORE ?? path.join("data", "approvals.json");
+export const APPROVAL_THRESHOLD_SOL = process.env.APPROVAL_THRESHOLD_SOL
+  ? parseFloat(process.env.APPROVAL_THRESHOLD_SOL)
+  : undefined;
+export const APPROVAL_TTL_MS = parseInt(
+  process.env.APPROVAL_TTL_MS ?? "900000",
+  10,
+);
+
+// Agent run history, and what to do with runs interrupted by a restart
+// ("resume", "fail" or "wait"; agents can override)
+export const RUN_STORE =
+  process.env.RUN_STORE ?? path.join("data", "runs.json");
+export const RUN_RECOVERY = process.env.RUN_RECOVERY ?? "fail";
+
+// Recurring strategy schedules
+export const SCHEDULE_STORE =
+  process.env.SCHEDULE_STORE ?? path.join("data", "schedules.json");
+
+// Extra strategy modules to register (comma-separated paths)
+export const STRATEGY_MODULES = process.env.STRATEGY_MODULES
+  ? process.env.STRATEGY_MODULES.split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)
+  : [];
+
+// Price feeds API callers may name: file feeds must be inside the directory,
+// http(s) feeds on one of the hosts (comma-separated). Unset allows neither.
+export const PRICE_FEED_DIR = process.env.PRICE_FEED_DIR ?? "";
+export const PRICE_FEED_HOSTS = process.env.PRICE_FEED_HOSTS
+  ? process.env.PRICE_FEED_HOSTS.split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean)
+  : [];
+
+// Simulated balances for agents in paper mode, and the fee charged per operation
+export const PAPER_STORE =
+  process.env.PAPER_STORE ?? path.join("data", "paper.json");
+export const PAPER_FEE_LAMPORTS = Number(
+  process.env.PAPER_FEE_LAMPORTS ?? 5000,
+);
+
+// Constant-product pool program used for swaps (SPL Token Swap by default)
+export const SWAP_PROGRAM_ID =
+  process.env.SWAP_PROGRAM_ID ?? "SwapsVeCiPHMUAtzQWZw7RjsKjgCjhwU55QGu4U1Szw";
+export const SWAP_SLIPPAGE_BPS = Number(process.env.SWAP_SLIPPAGE_BPS ?? 100);
+
+// Cached token metadata (name, symbol, URI) by mint, refetched after the TTL
+export const TOKEN_METADATA_STORE =
+  process.env.TOKEN_METADATA_STORE ?? path.join("data", "token-metadata.json");
+export const TOKEN_METADATA_TTL_MS = Number(
+  process.env.TOKEN_METADATA_TTL_MS ?? 86_400_000,
+);
+
+// Priority fees: default percentile of recent fees to bid, and the most one
+// transaction may pay in priority fees (lamports); agents can override
+export const PRIORITY_FEE_PERCENTILE = Number(
+  process.env.PRIORITY_FEE_PERCENTILE ?? 50,
+);
+export const PRIORITY_FEE_MAX_LAMPORTS = Number(
+  process.env.PRIORITY_FEE_MAX_LAMPORTS ?? 100_000,
+);
+
+// Sending: how often an unconfirmed transaction is rebroadcast (ms), and how
+// many times one whose blockhash expired is re-signed and sent again
+export const SEND_REBROADCAST_MS = Number(
+  process.env.SEND_REBROADCAST_MS ?? 2000,
+);
+export const SEND_ATTEMPTS = Number(process.env.SEND_ATTEMPTS ?? 3);
@@ -1,5 +1,10 @@
 import { Connection, Transaction, VersionedTransaction } from "@solana/web3.js";
 import { KORA_RPC_URL } from "../config.js";
+import {
+  SendResult,
+  TransactionLifetime,
+  TransactionSender,
+} from "../wallet/TransactionSender.js";
 
 export class KoraClient {
   private readonly koraConnection: Connection | null;
@@ -13,9 +18,11 @@ export class KoraClient {
     return this.koraConnection !== null;
   }
 
+  /** Submits through Kora, rebroadcasting until it lands or expires. */
   async sendTransaction(
     tx: Transaction | VersionedTransaction,
-  ): Promise<string> {
+    lifetime: TransactionLifetime,
+  ): Promise<SendResult> {
     if (!this.koraConnection) {
       throw new Error("Kora RPC URL not configured.");
     }
@@ -26,9 +33,7 @@ export class KoraClient {
         ? tx.serialize({ requireAllSignatures: false })
         : tx.serialize();
 
-    const signature = await this.koraConnection.sendRawTransaction(rawTx);
-    await this.koraConnection.confirmTransaction(signature, "confirmed");
-    return signature;
+    return new TransactionSender(this.koraConnection).send(rawTx, lifetime);
   }
 
   getConnection(): Connection {
@@ -0,0 +1,181 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { LEDGER_STORE } from "../config.js";
+
+export const LEDGER_KINDS = [
+  "sol_transfer",
+  "spl_mint",
+  "spl_transfer",
+  "spl_burn",
+  "close_account",
+  "freeze_account",
+  "thaw_account",
+  "set_authority",
+  "create_mint",
+  "airdrop",
+  "swap",
+  "other",
+] as const;
+
+export type LedgerKind = (typeof LEDGER_KINDS)[number];
+
+/**
+ * confirmed: landed on-chain. failed: submitted or built but errored.
+ * expired: sent, but its blockhash expired before it landed.
+ * rejected: blocked by a policy or spending limit before signing.
+ * parked: waiting in the approval queue.
+ */
+export const LEDGER_STATUSES = [
+  "confirmed",
+  "failed",
+  "expired",
+  "rejected",
+  "parked",
+] as const;
+
+export type LedgerStatus = (typeof LEDGER_STATUSES)[number];
+
+export type LedgerEntry = {
+  id: string;
+  signature?: string;
+  agentId?: string;
+  /** Wallet address that signed (or received, for airdrops). */
+  wallet: string;
+  kind: LedgerKind;
+  /**
+   * Base units: lamports for SOL and for rent reclaimed by close_account,
+   * token base units for SPL.
+   */
+  amount?: string;
+  mint?: string;
+  destination?: string;
+  status: LedgerStatus;
+  error?: string;
+  /** Slot the transaction landed in, when known. */
+  slot?: number;
+  /** Network fee in lamports, when known. */
+  fee?: number;
+  /** Approval queue item, for transactions that were parked. */
+  approvalId?: string;
+  /** Applied to paper balances only; never sent to the network. */
+  simulated?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LedgerFilter = {
+  agentId?: string;
+  wallet?: string;
+  kind?: LedgerKind;
+  status?: LedgerStatus;
+  mint?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+};
+
+/**
+ * Append-only local record of every transaction the system submits, stored
+ * as JSON next to the agent registry. Writes are serialized so concurrent
+ * sends do not drop each other's entries; share one instance per process.
+ */
+export class TransactionLedger {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storePath: string = LEDGER_STORE) {}
+
+  /**
+   * Adds an entry, or merges into an existing one with the same signature or
+   * approval id (a parked transaction that was later approved and sent).
+   */
+  async record(
+    entry: Omit<LedgerEntry, "id" | "createdAt" | "updatedAt"> & {
+      createdAt?: string;
+    },
+  ): Promise<LedgerEntry> {
+    const write = this.writes.then(() => this.upsert(entry));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async upsert(
+    entry: Omit<LedgerEntry, "id" | "createdAt" | "updatedAt"> & {
+      createdAt?: string;
+    },
+  ): Promise<LedgerEntry> {
+    const now = new Date().toISOString();
+    const all = await this.readEntries();
+    const existing = all.find(
+      (e) =>
+        (entry.signature !== undefined && e.signature === entry.signature) ||
+        (entry.approvalId !== undefined && e.approvalId === entry.approvalId),
+    );
+    if (existing) {
+      Object.assign(
+        existing,
+        Object.fromEntries(
+          Object.entries(entry).filter(
+            ([key, value]) => value !== undefined && key !== "createdAt",
+          ),
+        ),
+        { updatedAt: now },
+      );
+      await this.writeEntries(all);
+      return existing;
+    }
+
+    const record: LedgerEntry = {
+      id: randomUUID(),
+      ...entry,
+      createdAt: entry.createdAt ?? now,
+      updatedAt: now,
+    };
+    all.push(record);
+    await this.writeEntries(all);
+    return record;
+  }
+
+  /** Matching entries, newest first. */
+  async list(filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    const since = filter.since ? new Date(filter.since).getTime() : undefined;
+    const until = filter.until ? new Date(filter.until).getTime() : undefined;
+    await this.writes;
+    const matches = (await this.readEntries())
+      .filter((entry) => {
+        const created = new Date(entry.createdAt).getTime();
+        return (
+          (!filter.agentId || entry.agentId === filter.agentId) &&
+          (!filter.wallet || entry.wallet === filter.wallet) &&
+          (!filter.kind || entry.kind === filter.kind) &&
+          (!filter.status || entry.status === filter.status) &&
+          (!filter.mint || entry.mint === filter.mint) &&
+          (since === undefined || created >= since) &&
+          (until === undefined || created <= until)
+        );
+      })
+      .reverse();
+    return filter.limit !== undefined
+      ? matches.slice(0, filter.limit)
+      : matches;
+  }
+
+  private async readEntries(): Promise<LedgerEntry[]> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf8");
+      return JSON.parse(raw) as LedgerEntry[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeEntries(entries: LedgerEntry[]): Promise<void> {
+    const dir = path.dirname(this.storePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      this.storePath,
+      JSON.stringify(entries, null, 2),
+      "utf8",
+    );
+  }
+}
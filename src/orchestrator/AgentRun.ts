@@ -0,0 +1,45 @@
+import { AgentDecision } from "../agents/Agent.js";
+import { PolicyViolation } from "../security/TransactionPolicy.js";
+
+/**
+ * interrupted: the owning process exited mid-run and the agent's recovery
+ * policy is "wait", so an operator has to resume or cancel it.
+ */
+export type RunStatus =
+  "running" | "completed" | "cancelled" | "failed" | "interrupted";
+
+/** What to do with an agent's runs that a process restart interrupted. */
+export type RecoveryPolicy = "resume" | "fail" | "wait";
+
+/** One execution of a strategy by an agent, tracked by run id. */
+export type AgentRun = {
+  id: string;
+  agentId: string;
+  strategy: string;
+  status: RunStatus;
+  /** Strategy parameters, JSON-safe (addresses as base58). */
+  config: Record<string, unknown>;
+  iterations: number;
+  completedIterations: number;
+  decisions: AgentDecision[];
+  lastDecision?: AgentDecision;
+  signatures: string[];
+  /** Run by a paper agent against simulated balances. */
+  simulated?: boolean;
+  /** Process executing the run, used to detect interrupted runs. */
+  pid: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  /** Times the run was resumed after a restart. */
+  resumes?: number;
+  error?: string;
+  /** The policy rule that failed the run, if one did. */
+  violation?: PolicyViolation;
+};
+
+/** A started run plus a promise that settles with its signatures. */
+export type RunHandle = {
+  run: AgentRun;
+  done: Promise<string[]>;
+};
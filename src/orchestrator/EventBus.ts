@@ -1,21 +1,169 @@
-type Handler<T> = (payload: T) => void;
+import { PolicyViolation } from "../security/TransactionPolicy.js";
+import { BudgetAsset, BudgetWindow } from "../security/SpendingBudget.js";
+import { ApprovalStatus } from "../approvals/ApprovalQueue.js";
+import { LedgerKind, LedgerStatus } from "../ledger/TransactionLedger.js";
 
+/** Payload of every event, keyed by event name. `id` is the agent id. */
+export type EventMap = {
+  agent_spawned: { id: string; strategy: string; walletAddress: string };
+  agent_started: { id: string; runId: string; strategy: string };
+  agent_completed: { id: string; runId: string; signatures: string[] };
+  agent_failed: { id: string; runId: string; error: string };
+  agent_stopped: { id: string; runId: string };
+  agent_recovered: {
+    id: string;
+    runId: string;
+    action: "resumed" | "failed" | "waiting";
+    completedIterations: number;
+  };
+  schedule_triggered: { id: string; scheduleId: string; runId: string };
+  schedule_skipped: { id: string; scheduleId: string; reason: string };
+  limit_exceeded: {
+    id: string;
+    asset: BudgetAsset;
+    window: BudgetWindow | "lifetime";
+    attempted: number;
+    spent: number;
+    limit: number;
+  };
+  policy_rejected: { id: string; violation: PolicyViolation };
+  approval_requested: { id: string; approvalId: string; reasons: string[] };
+  approval_decided: {
+    id: string;
+    approvalId: string;
+    status: ApprovalStatus;
+    signature?: string;
+    error?: string;
+  };
+  transaction_sent: {
+    id?: string;
+    wallet: string;
+    kind: LedgerKind;
+    signature: string;
+    fee?: number;
+    simulated?: boolean;
+  };
+  transaction_failed: {
+    id?: string;
+    wallet: string;
+    kind: LedgerKind;
+    status: Exclude<LedgerStatus, "confirmed">;
+    error: string;
+    simulated?: boolean;
+  };
+};
+
+export type EventName = keyof EventMap;
+
+/** An emitted event as kept in the replay buffer. */
+export type BusEvent<K extends EventName = EventName> = {
+  [E in K]: { seq: number; event: E; payload: EventMap[E]; timestamp: string };
+}[K];
+
+type Handler<K extends EventName> = (
+  payload: EventMap[K],
+) => void | Promise<void>;
+type WildcardHandler = (event: BusEvent) => void | Promise<void>;
+
+const DEFAULT_REPLAY_SIZE = 500;
+
+/**
+ * Typed publish/subscribe bus. Handlers run in subscription order; a handler
+ * that throws or rejects is logged and never reaches the emitter. The last
+ * `replaySize` events are kept so late subscribers can catch up.
+ */
 export class EventBus {
-  private handlers = new Map<string, Set<Handler<unknown>>>();
+  private handlers = new Map<EventName, Set<Handler<EventName>>>();
+  private wildcardHandlers = new Set<WildcardHandler>();
+  private buffer: BusEvent[] = [];
+  private sequence = 0;
+  private readonly replaySize: number;
+  private readonly onError: (error: unknown, event: EventName) => void;
 
-  on<T>(event: string, handler: Handler<T>): void {
-    const set = this.handlers.get(event) ?? new Set();
-    set.add(handler as Handler<unknown>);
-    this.handlers.set(event, set);
+  constructor(options?: {
+    replaySize?: number;
+    onError?: (error: unknown, event: EventName) => void;
+  }) {
+    this.replaySize = options?.replaySize ?? DEFAULT_REPLAY_SIZE;
+    this.onError =
+      options?.onError ??
+      ((error, event) =>
+        console.error(`EventBus handler for "${event}" failed:`, error));
   }
 
-  emit<T>(event: string, payload: T): void {
-    const set = this.handlers.get(event);
-    if (!set) {
+  /** Subscribes to one event, or to every event with "*". */
+  on<K extends EventName>(event: K, handler: Handler<K>): () => void;
+  on(event: "*", handler: WildcardHandler): () => void;
+  on(
+    event: EventName | "*",
+    handler: Handler<EventName> | WildcardHandler,
+  ): () => void {
+    if (event === "*") {
+      this.wildcardHandlers.add(handler as WildcardHandler);
+    } else {
+      const set = this.handlers.get(event) ?? new Set();
+      set.add(handler as Handler<EventName>);
+      this.handlers.set(event, set);
+    }
+    return () => this.off(event as EventName, handler as Handler<EventName>);
+  }
+
+  off<K extends EventName>(event: K, handler: Handler<K>): void;
+  off(event: "*", handler: WildcardHandler): void;
+  off(
+    event: EventName | "*",
+    handler: Handler<EventName> | WildcardHandler,
+  ): void {
+    if (event === "*") {
+      this.wildcardHandlers.delete(handler as WildcardHandler);
       return;
     }
-    for (const handler of set) {
-      handler(payload as unknown);
+    this.handlers.get(event)?.delete(handler as Handler<EventName>);
+  }
+
+  /** Subscribes for the next occurrence of an event only. */
+  once<K extends EventName>(event: K, handler: Handler<K>): () => void {
+    const wrapper: Handler<K> = (payload) => {
+      this.off(event, wrapper);
+      return handler(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  emit<K extends EventName>(event: K, payload: EventMap[K]): void {
+    this.sequence += 1;
+    const record = {
+      seq: this.sequence,
+      event,
+      payload,
+      timestamp: new Date().toISOString(),
+    } as BusEvent;
+    this.buffer.push(record);
+    if (this.buffer.length > this.replaySize) {
+      this.buffer.shift();
+    }
+
+    for (const handler of [...this.wildcardHandlers]) {
+      this.invoke(event, () => handler(record));
+    }
+    for (const handler of [...(this.handlers.get(event) ?? [])]) {
+      this.invoke(event, () => (handler as Handler<K>)(payload));
+    }
+  }
+
+  /** Buffered events with a sequence number above `since`, oldest first. */
+  replay(since = 0): BusEvent[] {
+    return this.buffer.filter((record) => record.seq > since);
+  }
+
+  private invoke(event: EventName, call: () => void | Promise<void>): void {
+    try {
+      const result = call();
+      if (result instanceof Promise) {
+        result.catch((error) => this.onError(error, event));
+      }
+    } catch (error) {
+      this.onError(error, event);
     }
   }
 }
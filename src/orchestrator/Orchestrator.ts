@@ -1,55 +1,248 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
-import { AGENT_STORE, DEFAULT_SPENDING_LIMIT } from "../config.js";
-import { AgentRecord } from "../agents/Agent.js";
+import {
+  AGENT_STORE,
+  APPROVAL_THRESHOLD_SOL,
+  APPROVAL_TTL_MS,
+  DEFAULT_SPENDING_LIMIT,
+  RUN_RECOVERY,
+  STRATEGY_MODULES,
+} from "../config.js";
+import { AgentMode, AgentRecord, DecisionListener } from "../agents/Agent.js";
 import { WalletService } from "../wallet/WalletService.js";
-import { TokenService } from "../tokens/TokenService.js";
-import { SimpleAgentRunner } from "../agents/SimpleAgentRunner.js";
-import { TradingAgent } from "../agents/TradingAgent.js";
-import { LiquidityAgent } from "../agents/LiquidityAgent.js";
-import { EventBus } from "./EventBus.js";
-import { PublicKey } from "@solana/web3.js";
+import {
+  AgentTokenService,
+  SplBalance,
+  TokenOperations,
+  TokenService,
+} from "../tokens/TokenService.js";
+import {
+  PaperGuard,
+  PaperTokenService,
+  describePaperOperation,
+} from "../tokens/PaperTokenService.js";
+import { PaperLedger } from "../tokens/PaperLedger.js";
+import {
+  StrategyConfig,
+  StrategyDefinition,
+  resolveConfig,
+} from "../strategies/Strategy.js";
+import { StrategyRegistry } from "../strategies/StrategyRegistry.js";
+import { StrategyRunner } from "../strategies/StrategyRunner.js";
+import { BUILTIN_STRATEGIES } from "../strategies/builtin.js";
+import {
+  BacktestOptions,
+  BacktestReport,
+  Backtester,
+} from "../backtest/Backtester.js";
+import { SeriesPoint } from "../backtest/series.js";
+import { EventBus, EventMap } from "./EventBus.js";
+import { AgentRun, RecoveryPolicy, RunHandle, RunStatus } from "./AgentRun.js";
+import { RunStore } from "./RunStore.js";
+import { Schedule, ScheduleInput, Scheduler } from "./Scheduler.js";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { AnyTransaction, TransactionGuard } from "../wallet/types.js";
+import {
+  FeePolicy,
+  isComputeBudgetInstruction,
+  validateFeePolicy,
+} from "../wallet/ComputeBudget.js";
+import { advancedNonceAccount } from "../wallet/DurableNonce.js";
+import {
+  SendResult,
+  TransactionSendError,
+} from "../wallet/TransactionSender.js";
+import {
+  DecodedTransaction,
+  decodeTransaction,
+  TransactionSummary,
+  outgoingLamports,
+  summarizeTransaction,
+} from "../security/TransactionDecoder.js";
+import {
+  PolicyContext,
+  TransactionPolicy,
+  evaluatePolicy,
+  validatePolicy,
+} from "../security/TransactionPolicy.js";
+import {
+  AgentBudget,
+  BUDGET_WINDOWS,
+  BudgetAsset,
+  BudgetReport,
+  SOL_ASSET,
+  buildBudgetReport,
+  findBudgetViolation,
+  pruneSpendLog,
+} from "../security/SpendingBudget.js";
+import {
+  ApprovalError,
+  PolicyViolationError,
+  SpendingLimitError,
+} from "../security/errors.js";
+import {
+  ApprovalConfig,
+  ApprovalItem,
+  ApprovalQueue,
+  ApprovalStatus,
+} from "../approvals/ApprovalQueue.js";
+import { sleep } from "../utils/sleep.js";
+import { processAlive } from "../utils/process.js";
+import {
+  LedgerEntry,
+  LedgerFilter,
+  LedgerKind,
+  TransactionLedger,
+} from "../ledger/TransactionLedger.js";
 
 type RunningAgent = {
   id: string;
-  runner: SimpleAgentRunner | TradingAgent | LiquidityAgent;
+  runId: string;
+  runner: StrategyRunner;
 };
 
+const APPROVAL_POLL_MS = 2000;
+
+/** Addresses other than the wallet itself that receive SOL or tokens. */
+function paidDestinations(
+  decoded: DecodedTransaction,
+  wallet: PublicKey,
+): string[] {
+  const self = wallet.toBase58();
+  const destinations = decoded.instructions.flatMap((ix) => {
+    if (ix.kind === "sol_transfer") {
+      return [ix.to];
+    }
+    if (ix.kind === "spl_transfer" || ix.kind === "close_account") {
+      return [ix.destination];
+    }
+    return [];
+  });
+  return Array.from(new Set(destinations.filter((d) => d !== self)));
+}
+
+/** Why a transaction has to wait for an operator; empty when it does not. */
+function approvalReasons(
+  record: AgentRecord,
+  outflows: Map<BudgetAsset, number>,
+  destinations: string[],
+): string[] {
+  const reasons: string[] = [];
+  const thresholds: Record<BudgetAsset, number> = {
+    ...(APPROVAL_THRESHOLD_SOL !== undefined
+      ? { [SOL_ASSET]: APPROVAL_THRESHOLD_SOL }
+      : {}),
+    ...record.approval?.thresholds,
+  };
+  for (const [asset, amount] of outflows) {
+    const threshold = thresholds[asset];
+    if (threshold !== undefined && amount > threshold) {
+      reasons.push(`${asset} amount ${amount} above threshold ${threshold}`);
+    }
+  }
+  if (record.approval?.newDestinations) {
+    const known = new Set(record.knownDestinations ?? []);
+    for (const destination of destinations) {
+      if (!known.has(destination)) {
+        reasons.push(`New destination ${destination}`);
+      }
+    }
+  }
+  return reasons;
+}
+
+/** Ledger kind for a parked transaction, from its first known instruction. */
+function ledgerKindOf(summary: TransactionSummary): LedgerKind {
+  const kinds = summary.instructions.map((ix) => ix.kind);
+  for (const kind of [
+    "sol_transfer",
+    "spl_transfer",
+    "spl_mint",
+    "spl_burn",
+    "close_account",
+    "swap",
+  ] as const) {
+    if (kinds.includes(kind)) {
+      return kind;
+    }
+  }
+  return "other";
+}
+
 export class Orchestrator {
   private readonly walletService: WalletService;
   private readonly tokenService: TokenService;
   private readonly storePath: string;
   private readonly eventBus: EventBus;
   private readonly runningAgents: Map<string, RunningAgent> = new Map();
+  /** Runs executing in this process; finished runs live in the store. */
+  private readonly runs: Map<string, AgentRun> = new Map();
+  private readonly runStore: RunStore;
+  /** Pending agent-store writes; see `updateAgents`. */
+  private agentWrites: Promise<unknown> = Promise.resolve();
+  private readonly scheduler: Scheduler;
+  private readonly approvalQueue: ApprovalQueue;
+  private readonly ledger: TransactionLedger;
+  private readonly paperLedger: PaperLedger;
+  private readonly registry: StrategyRegistry;
+  private registryReady?: Promise<StrategyRegistry>;
 
-  constructor(walletService?: WalletService, eventBus?: EventBus) {
+  constructor(
+    walletService?: WalletService,
+    eventBus?: EventBus,
+    registry?: StrategyRegistry,
+    ledger?: TransactionLedger,
+  ) {
     this.walletService = walletService ?? new WalletService();
-    this.tokenService = new TokenService(this.walletService.getConnection());
-    this.storePath = AGENT_STORE;
     this.eventBus = eventBus ?? new EventBus();
+    this.registry = registry ?? new StrategyRegistry(BUILTIN_STRATEGIES);
+    this.ledger = ledger ?? new TransactionLedger();
+    this.paperLedger = new PaperLedger();
+    this.tokenService = new TokenService(this.walletService, {
+      ledger: this.ledger,
+      events: this.eventBus,
+    });
+    this.storePath = AGENT_STORE;
+    this.approvalQueue = new ApprovalQueue();
+    this.runStore = new RunStore();
+    this.scheduler = new Scheduler((schedule) =>
+      this.triggerSchedule(schedule),
+    );
   }
 
   async spawnAgent(
     strategy: string,
     walletName?: string,
     spendingLimit?: number,
+    mode: AgentMode = "live",
   ): Promise<AgentRecord> {
+    if (mode !== "live" && mode !== "paper") {
+      throw new Error(`Invalid mode: ${mode} (expected live or paper)`);
+    }
+    const definition = (await this.strategies()).resolve(strategy);
     const name = walletName ?? `agent-${Date.now()}`;
     const wallet = await this.walletService.createWallet(name);
     const record: AgentRecord = {
       id: randomUUID(),
       walletName: name,
       walletAddress: wallet.publicKey.toBase58(),
-      strategy,
+      strategy: definition.name,
+      mode,
       createdAt: new Date().toISOString(),
       solSpent: 0,
       spendingLimit: spendingLimit ?? DEFAULT_SPENDING_LIMIT,
       lastUpdated: new Date().toISOString(),
     };
-    const all = await this.readAgents();
-    all.push(record);
-    await this.writeAgents(all);
+    await this.updateAgents((all) => {
+      all.push(record);
+    });
 
     this.eventBus.emit("agent_spawned", {
       id: record.id,
@@ -65,29 +258,35 @@ export class Orchestrator {
     strategy: string,
     spendingLimit?: number,
   ): Promise<AgentRecord> {
+    const assertUnregistered = (all: AgentRecord[]) => {
+      const existing = all.find((a) => a.walletName === walletName);
+      if (existing) {
+        throw new Error(
+          `Wallet "${walletName}" is already registered as agent ${existing.id}`,
+        );
+      }
+    };
     // Check if already registered
-    const all = await this.readAgents();
-    const existing = all.find((a) => a.walletName === walletName);
-    if (existing) {
-      throw new Error(
-        `Wallet "${walletName}" is already registered as agent ${existing.id}`,
-      );
-    }
+    assertUnregistered(await this.listAgents());
 
+    const definition = (await this.strategies()).resolve(strategy);
     // Load existing wallet (will throw if not found)
     const wallet = await this.walletService.loadWallet(walletName);
     const record: AgentRecord = {
       id: randomUUID(),
       walletName,
       walletAddress: wallet.publicKey.toBase58(),
-      strategy,
+      strategy: definition.name,
       createdAt: new Date().toISOString(),
       solSpent: 0,
       spendingLimit: spendingLimit ?? DEFAULT_SPENDING_LIMIT,
       lastUpdated: new Date().toISOString(),
     };
-    all.push(record);
-    await this.writeAgents(all);
+    await this.updateAgents((all) => {
+      // Registered while the wallet was loading
+      assertUnregistered(all);
+      all.push(record);
+    });
 
     this.eventBus.emit("agent_spawned", {
       id: record.id,
@@ -101,21 +300,39 @@ export class Orchestrator {
   async stopAgent(id: string): Promise<void> {
     const running = this.runningAgents.get(id);
     if (running) {
-      if (
-        "stop" in running.runner &&
-        typeof running.runner.stop === "function"
-      ) {
-        running.runner.stop();
-      }
+      running.runner.stop();
       this.runningAgents.delete(id);
-      this.eventBus.emit("agent_stopped", { id });
+      const run = this.runs.get(running.runId);
+      if (run?.status === "running") {
+        run.status = "cancelled";
+        await this.saveRun(run);
+      }
+      this.eventBus.emit("agent_stopped", { id, runId: running.runId });
     }
 
+    if (await this.getAgent(id)) {
+      await this.updateAgent(id, () => undefined);
+    }
+  }
+
+  /**
+   * Switches a paper agent to live. Wallet, strategy, limits, policies and
+   * schedules stay as they are; paper balances are not carried over.
+   */
+  async goLive(id: string): Promise<AgentRecord> {
     const record = await this.getAgent(id);
-    if (record) {
-      record.lastUpdated = new Date().toISOString();
-      await this.updateAgent(record);
+    if (!record) {
+      throw new Error(`Agent not found: ${id}`);
+    }
+    if (record.mode !== "paper") {
+      throw new Error(`Agent ${id} is already live`);
     }
+    if (this.runningAgents.has(id)) {
+      throw new Error(`Agent ${id} is running; stop it before going live`);
+    }
+    return this.updateAgent(id, (current) => {
+      current.mode = "live";
+    });
   }
 
   isRunning(id: string): boolean {
@@ -123,10 +340,12 @@ export class Orchestrator {
   }
 
   async listAgents(): Promise<AgentRecord[]> {
+    await this.agentWrites;
     return this.readAgents();
   }
 
   async getAgent(id: string): Promise<AgentRecord | undefined> {
+    await this.agentWrites;
     const all = await this.readAgents();
     return all.find((agent) => agent.id === id);
   }
@@ -137,131 +356,438 @@ export class Orchestrator {
       throw new Error(`Agent not found: ${id}`);
     }
     const wallet = await this.walletService.loadWallet(record.walletName);
-    return this.tokenService.getSolBalance(wallet.publicKey);
+    return this.tokenServiceFor(record).getSolBalance(wallet.publicKey);
   }
 
-  async fundAgent(id: string, sol: number): Promise<string> {
+  /** SPL balances from the network, or from paper balances in paper mode. */
+  async getAgentSplBalances(id: string): Promise<SplBalance[]> {
     const record = await this.getAgent(id);
     if (!record) {
       throw new Error(`Agent not found: ${id}`);
     }
     const wallet = await this.walletService.loadWallet(record.walletName);
-    return this.tokenService.requestAirdrop(wallet.publicKey, sol);
+    return this.tokenServiceFor(record).getSplBalances(wallet.publicKey);
   }
 
-  async runAgentLoop(
-    id: string,
-    options: {
-      to: PublicKey;
-      sol: number;
-      iterations?: number;
-      intervalMs?: number;
-      holdProbability?: number;
-    },
-  ): Promise<string[]> {
+  async fundAgent(id: string, sol: number): Promise<string> {
     const record = await this.getAgent(id);
     if (!record) {
       throw new Error(`Agent not found: ${id}`);
     }
-
     const wallet = await this.walletService.loadWallet(record.walletName);
-    const runner = new SimpleAgentRunner(this.tokenService);
-    const iterations = options.iterations ?? 5;
-    const intervalMs = options.intervalMs ?? 3000;
-    const holdProbability = Math.min(
-      Math.max(options.holdProbability ?? 0.6, 0),
-      1,
-    );
+    return this.tokenServiceFor(record).requestAirdrop(wallet.publicKey, sol);
+  }
 
-    this.runningAgents.set(id, { id, runner });
-    this.eventBus.emit("agent_started", { id, strategy: "simple_transfer" });
+  /** Registered strategies, including those from STRATEGY_MODULES. */
+  async listStrategies(): Promise<StrategyDefinition[]> {
+    return (await this.strategies()).list();
+  }
 
-    const signatures = await runner.runSolTransferLoop(wallet, {
-      to: options.to,
-      sol: options.sol,
-      iterations,
-      intervalMs,
-      holdProbability,
-    });
+  /** Replays a series through a registered strategy without touching the chain. */
+  async backtest(
+    strategy: string,
+    series: SeriesPoint[],
+    options: Record<string, unknown> = {},
+    backtestOptions?: BacktestOptions,
+  ): Promise<BacktestReport> {
+    const definition = (await this.strategies()).resolve(strategy);
+    return new Backtester(definition, backtestOptions).run(series, options);
+  }
 
-    this.runningAgents.delete(id);
-    this.eventBus.emit("agent_completed", { id, signatures });
+  /** The registry, for registering strategies programmatically. */
+  getStrategyRegistry(): StrategyRegistry {
+    return this.registry;
+  }
 
-    return signatures;
+  /**
+   * Starts a registered strategy in the background. Options are checked
+   * against the strategy's config schema and completed with its defaults.
+   */
+  async startRun(
+    id: string,
+    strategy: string,
+    options: Record<string, unknown> = {},
+  ): Promise<RunHandle> {
+    const definition = (await this.strategies()).resolve(strategy);
+    const config = resolveConfig(definition, options);
+    return this.startStrategy(id, definition.name, config);
   }
 
-  async runTradingAgent(
+  /** Runs a registered strategy and resolves when it finishes. */
+  async runStrategy(
     id: string,
-    options: {
-      targetMint: PublicKey;
-      buyThreshold?: number;
-      sellThreshold?: number;
-      tradeAmount?: number;
-      iterations?: number;
-      intervalMs?: number;
-    },
+    strategy: string,
+    options: Record<string, unknown> = {},
   ): Promise<string[]> {
-    const record = await this.getAgent(id);
-    if (!record) {
-      throw new Error(`Agent not found: ${id}`);
+    return (await this.startRun(id, strategy, options)).done;
+  }
+
+  // ── Schedules ─────────────────────────────────────────────
+
+  async addSchedule(input: ScheduleInput): Promise<Schedule> {
+    if (!(await this.getAgent(input.agentId))) {
+      throw new Error(`Agent not found: ${input.agentId}`);
     }
+    const definition = (await this.strategies()).resolve(input.strategy);
+    return this.scheduler.add({
+      ...input,
+      strategy: definition.name,
+      config: resolveConfig(definition, input.config ?? {}),
+    });
+  }
 
-    const wallet = await this.walletService.loadWallet(record.walletName);
-    const agent = new TradingAgent(this.tokenService);
-
-    this.runningAgents.set(id, { id, runner: agent });
-    this.eventBus.emit("agent_started", { id, strategy: "trading" });
-
-    const signatures = await agent.run(wallet, {
-      targetMint: options.targetMint,
-      buyThreshold: options.buyThreshold ?? 0.95,
-      sellThreshold: options.sellThreshold ?? 1.05,
-      tradeAmount: options.tradeAmount ?? 1.0,
-      iterations: options.iterations ?? 5,
-      intervalMs: options.intervalMs ?? 3000,
+  async listSchedules(agentId?: string): Promise<Schedule[]> {
+    return this.scheduler.list(agentId);
+  }
+
+  async removeSchedule(scheduleId: string): Promise<void> {
+    await this.scheduler.remove(scheduleId);
+  }
+
+  async setScheduleEnabled(
+    scheduleId: string,
+    enabled: boolean,
+  ): Promise<Schedule> {
+    return this.scheduler.setEnabled(scheduleId, enabled);
+  }
+
+  /** Runs due schedules in this process until stopScheduler(). */
+  startScheduler(): void {
+    this.scheduler.start();
+  }
+
+  stopScheduler(): void {
+    this.scheduler.stop();
+  }
+
+  /** Starts the run for a due schedule unless the agent is still busy. */
+  private async triggerSchedule(schedule: Schedule): Promise<string | void> {
+    if (this.isRunning(schedule.agentId)) {
+      this.eventBus.emit("schedule_skipped", {
+        id: schedule.agentId,
+        scheduleId: schedule.id,
+        reason: "Previous run still in progress",
+      });
+      return;
+    }
+    const { run } = await this.startRun(
+      schedule.agentId,
+      schedule.strategy,
+      schedule.config,
+    );
+    this.eventBus.emit("schedule_triggered", {
+      id: schedule.agentId,
+      scheduleId: schedule.id,
+      runId: run.id,
     });
+    return run.id;
+  }
+
+  async getRun(runId: string): Promise<AgentRun | undefined> {
+    return this.runs.get(runId) ?? this.runStore.get(runId);
+  }
+
+  /** Runs from this and previous processes, newest first. */
+  async listRuns(filter?: {
+    agentId?: string;
+    status?: RunStatus;
+  }): Promise<AgentRun[]> {
+    const runs = await this.runStore.list(filter);
+    return runs.map((run) => this.runs.get(run.id) ?? run);
+  }
+
+  /**
+   * Stops a running run through its runner's stop(), or closes an
+   * interrupted run that is waiting for an operator.
+   */
+  async cancelRun(runId: string): Promise<AgentRun> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+    if (run.status === "interrupted") {
+      run.status = "cancelled";
+      run.finishedAt = new Date().toISOString();
+      await this.saveRun(run);
+      return run;
+    }
+    if (run.status !== "running") {
+      throw new Error(`Run ${runId} is already ${run.status}`);
+    }
+    if (!this.runs.has(runId)) {
+      throw new Error(`Run ${runId} is running in process ${run.pid}`);
+    }
+    await this.stopAgent(run.agentId);
+    return run;
+  }
 
-    this.runningAgents.delete(id);
-    this.eventBus.emit("agent_completed", { id, signatures });
+  /** Continues an interrupted run from its next iteration. */
+  async resumeRun(runId: string): Promise<RunHandle> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+    if (run.status !== "interrupted") {
+      throw new Error(`Run ${runId} is ${run.status}, not interrupted`);
+    }
+    return this.startStrategy(run.agentId, run.strategy, run.config, run);
+  }
 
-    return signatures;
+  /**
+   * Finds runs left "running" by a process that no longer exists and
+   * resumes them, marks them failed, or parks them for an operator,
+   * following each agent's recovery policy.
+   */
+  async recoverRuns(): Promise<AgentRun[]> {
+    const stale = (await this.runStore.list({ status: "running" })).filter(
+      // A run recorded under our own pid is from an earlier process that
+      // happened to get the same id (common in containers)
+      (run) =>
+        !this.runs.has(run.id) &&
+        (run.pid === process.pid || !processAlive(run.pid)),
+    );
+    for (const run of stale) {
+      const record = await this.getAgent(run.agentId);
+      const policy = record?.recovery ?? (RUN_RECOVERY as RecoveryPolicy);
+      run.status = "interrupted";
+      let action: EventMap["agent_recovered"]["action"] = "waiting";
+      if (!record || policy === "fail") {
+        run.status = "failed";
+        run.error = record
+          ? "Interrupted by process restart"
+          : `Agent not found: ${run.agentId}`;
+        run.finishedAt = new Date().toISOString();
+        action = "failed";
+      }
+      await this.saveRun(run);
+      if (record && policy === "resume") {
+        try {
+          await this.startStrategy(run.agentId, run.strategy, run.config, run);
+          action = "resumed";
+        } catch (error) {
+          run.status = "failed";
+          run.error = `Resume failed: ${error instanceof Error ? error.message : String(error)}`;
+          run.finishedAt = new Date().toISOString();
+          await this.saveRun(run);
+          action = "failed";
+        }
+      }
+      this.eventBus.emit("agent_recovered", {
+        id: run.agentId,
+        runId: run.id,
+        action,
+        completedIterations: run.completedIterations,
+      });
+    }
+    return stale;
   }
 
-  async runLiquidityAgent(
+  async setRecoveryPolicy(
     id: string,
-    options: {
-      poolMint: PublicKey;
-      minBalance?: number;
-      maxBalance?: number;
-      rebalanceAmount?: number;
-      iterations?: number;
-      intervalMs?: number;
-    },
-  ): Promise<string[]> {
+    policy: RecoveryPolicy,
+  ): Promise<AgentRecord> {
+    if (!["resume", "fail", "wait"].includes(policy)) {
+      throw new Error(`Invalid recovery policy: ${policy}`);
+    }
+    return this.updateAgent(id, (record) => {
+      record.recovery = policy;
+    });
+  }
+
+  /**
+   * Creates the strategy from its resolved config and starts it. When
+   * resuming, only the remaining iterations are executed.
+   */
+  private async startStrategy(
+    id: string,
+    strategy: string,
+    config: StrategyConfig,
+    resume?: AgentRun,
+  ): Promise<RunHandle> {
+    const definition = (await this.strategies()).resolve(strategy);
+    const { record, wallet, tokenService } = await this.prepareRun(id);
+    const iterations =
+      (config.iterations as number) - (resume?.completedIterations ?? 0);
+    const simulated = record.mode === "paper";
+    return this.launchRun(
+      id,
+      definition.name,
+      config,
+      simulated,
+      resume,
+      (onDecision) => {
+        const runner = new StrategyRunner(
+          definition.create({ agentId: id, wallet, tokenService }, config),
+          onDecision,
+        );
+        return {
+          runner,
+          start: () =>
+            runner.run({ iterations, intervalMs: config.intervalMs as number }),
+        };
+      },
+    );
+  }
+
+  /** The registry once external strategy modules have been loaded. */
+  private strategies(): Promise<StrategyRegistry> {
+    this.registryReady ??= Promise.all(
+      STRATEGY_MODULES.map((modulePath) => this.registry.load(modulePath)),
+    ).then(() => this.registry);
+    return this.registryReady;
+  }
+
+  /** Loads the agent wallet and a guarded token service for a new run. */
+  private async prepareRun(id: string): Promise<{
+    record: AgentRecord;
+    wallet: Keypair;
+    tokenService: TokenOperations;
+  }> {
     const record = await this.getAgent(id);
     if (!record) {
       throw new Error(`Agent not found: ${id}`);
     }
-
+    if (this.runningAgents.has(id)) {
+      throw new Error(`Agent ${id} is already running`);
+    }
     const wallet = await this.walletService.loadWallet(record.walletName);
-    const agent = new LiquidityAgent(this.tokenService);
-
-    this.runningAgents.set(id, { id, runner: agent });
-    this.eventBus.emit("agent_started", { id, strategy: "liquidity" });
-
-    const signatures = await agent.run(wallet, {
-      poolMint: options.poolMint,
-      minBalance: options.minBalance ?? 10,
-      maxBalance: options.maxBalance ?? 100,
-      rebalanceAmount: options.rebalanceAmount ?? 5,
-      iterations: options.iterations ?? 5,
-      intervalMs: options.intervalMs ?? 3000,
+    const tokenService = this.tokenServiceFor(record, true);
+    return { record, wallet, tokenService };
+  }
+
+  /**
+   * The agent's token service: on chain for live agents, simulated for paper
+   * agents. Guarded services enforce the agent's limits.
+   */
+  private tokenServiceFor(
+    record: AgentRecord,
+    guarded = false,
+  ): AgentTokenService {
+    const options = {
+      agentId: record.id,
+      ledger: this.ledger,
+      events: this.eventBus,
+    };
+    if (record.mode === "paper") {
+      return new PaperTokenService(this.paperLedger, {
+        ...options,
+        guard: guarded ? this.createPaperGuard(record.id) : undefined,
+      });
+    }
+    return new TokenService(this.walletService, {
+      ...options,
+      guard: guarded ? this.createSpendingGuard(record.id) : undefined,
+      feePolicy: record.fees,
     });
+  }
 
-    this.runningAgents.delete(id);
-    this.eventBus.emit("agent_completed", { id, signatures });
+  /**
+   * Registers (or resumes) a run, marks the agent running and starts the
+   * strategy without waiting for it. The run record follows the strategy's
+   * decisions and is persisted after each one.
+   */
+  private launchRun(
+    id: string,
+    strategy: string,
+    config: Record<string, unknown>,
+    simulated: boolean,
+    resume: AgentRun | undefined,
+    create: (onDecision: DecisionListener) => {
+      runner: StrategyRunner;
+      start: () => Promise<string[]>;
+    },
+  ): RunHandle {
+    const now = new Date().toISOString();
+    const run: AgentRun = resume ?? {
+      id: randomUUID(),
+      agentId: id,
+      strategy,
+      status: "running",
+      config,
+      iterations: config.iterations as number,
+      completedIterations: 0,
+      decisions: [],
+      signatures: [],
+      simulated: simulated || undefined,
+      pid: process.pid,
+      startedAt: now,
+      updatedAt: now,
+    };
+    const offset = run.completedIterations;
+    if (resume) {
+      run.status = "running";
+      run.pid = process.pid;
+      run.updatedAt = now;
+      run.resumes = (run.resumes ?? 0) + 1;
+    }
+    const { runner, start } = create((reported) => {
+      const decision = { ...reported, iteration: offset + reported.iteration };
+      run.decisions.push(decision);
+      run.lastDecision = decision;
+      run.completedIterations = decision.iteration + 1;
+      if (decision.signature) {
+        run.signatures.push(decision.signature);
+      }
+      this.saveRun(run).catch((error) =>
+        console.error(`Failed to persist run ${run.id}:`, error),
+      );
+    });
+
+    this.runs.set(run.id, run);
+    this.runningAgents.set(id, { id, runId: run.id, runner });
+    this.saveRun(run).catch((error) =>
+      console.error(`Failed to persist run ${run.id}:`, error),
+    );
+    this.eventBus.emit("agent_started", { id, runId: run.id, strategy });
+
+    const done = start();
+    done.then(
+      (signatures) => {
+        if (run.status === "running") {
+          run.status = "completed";
+        }
+        this.finishRun(run);
+        this.eventBus.emit("agent_completed", {
+          id,
+          runId: run.id,
+          signatures,
+        });
+      },
+      (error) => {
+        run.status = "failed";
+        run.error = error instanceof Error ? error.message : String(error);
+        if (error instanceof PolicyViolationError) {
+          run.violation = error.violation;
+        }
+        this.finishRun(run);
+        this.eventBus.emit("agent_failed", {
+          id,
+          runId: run.id,
+          error: run.error,
+        });
+      },
+    );
+    return { run, done };
+  }
+
+  private finishRun(run: AgentRun): void {
+    run.finishedAt = new Date().toISOString();
+    if (this.runningAgents.get(run.agentId)?.runId === run.id) {
+      this.runningAgents.delete(run.agentId);
+    }
+    this.runs.delete(run.id);
+    this.saveRun(run).catch((error) =>
+      console.error(`Failed to persist run ${run.id}:`, error),
+    );
+  }
+
+  private async saveRun(run: AgentRun): Promise<void> {
+    run.updatedAt = new Date().toISOString();
+    await this.runStore.save(run);
+  }
 
-    return signatures;
+  async listTransactions(filter?: LedgerFilter): Promise<LedgerEntry[]> {
+    return this.ledger.list(filter);
   }
 
   getEventBus(): EventBus {
@@ -274,13 +800,32 @@ export class Orchestrator {
       throw new Error(`Agent not found: ${id}`);
     }
     const wallet = await this.walletService.loadWallet(record.walletName);
-    const balances = await this.tokenService.getSplBalances(wallet.publicKey);
-    record.splBalances = balances;
-    record.lastUpdated = new Date().toISOString();
-    await this.updateAgent(record);
+    const balances = await this.tokenServiceFor(record).getSplBalances(
+      wallet.publicKey,
+    );
+    await this.updateAgent(id, (current) => {
+      current.splBalances = balances;
+    });
   }
 
   async trackSpending(id: string, sol: number): Promise<void> {
+    await this.updateAgent(id, (record) => {
+      const spent = (record.solSpent ?? 0) + sol;
+      const limit = record.spendingLimit ?? DEFAULT_SPENDING_LIMIT;
+      if (spent > limit) {
+        throw new SpendingLimitError(
+          `Spending limit exceeded: ${spent.toFixed(4)} > ${limit.toFixed(4)} SOL`,
+          id,
+          sol,
+          record.solSpent ?? 0,
+          limit,
+        );
+      }
+      record.solSpent = spent;
+    });
+  }
+
+  async checkSpendingLimit(id: string, sol: number): Promise<void> {
     const record = await this.getAgent(id);
     if (!record) {
       throw new Error(`Agent not found: ${id}`);
@@ -288,37 +833,657 @@ export class Orchestrator {
     const spent = (record.solSpent ?? 0) + sol;
     const limit = record.spendingLimit ?? DEFAULT_SPENDING_LIMIT;
     if (spent > limit) {
-      throw new Error(
-        `Spending limit exceeded: ${spent.toFixed(4)} > ${limit.toFixed(4)} SOL`,
+      throw new SpendingLimitError(
+        `Operation would exceed spending limit: ${spent.toFixed(4)} > ${limit.toFixed(4)} SOL`,
+        id,
+        sol,
+        record.solSpent ?? 0,
+        limit,
       );
     }
-    record.solSpent = spent;
-    record.lastUpdated = new Date().toISOString();
-    await this.updateAgent(record);
   }
 
-  async checkSpendingLimit(id: string, sol: number): Promise<void> {
+  async getBudgetReport(id: string): Promise<{
+    id: string;
+    spendingLimit: number;
+    solSpent: number;
+    budgets: AgentBudget[];
+    remaining: BudgetReport[];
+  }> {
     const record = await this.getAgent(id);
     if (!record) {
       throw new Error(`Agent not found: ${id}`);
     }
-    const spent = (record.solSpent ?? 0) + sol;
-    const limit = record.spendingLimit ?? DEFAULT_SPENDING_LIMIT;
-    if (spent > limit) {
+    const budgets = record.budgets ?? [];
+    return {
+      id,
+      spendingLimit: record.spendingLimit ?? DEFAULT_SPENDING_LIMIT,
+      solSpent: record.solSpent ?? 0,
+      budgets,
+      remaining: buildBudgetReport(budgets, record.spendLog ?? []),
+    };
+  }
+
+  /** Replaces the budget for `budget.asset`, or adds it if none exists. */
+  async setBudget(id: string, budget: AgentBudget): Promise<AgentRecord> {
+    for (const window of BUDGET_WINDOWS) {
+      const limit = budget[window];
+      if (limit !== undefined && (!Number.isFinite(limit) || limit < 0)) {
+        throw new Error(`Invalid ${window} limit: ${limit}`);
+      }
+    }
+    return this.updateAgent(id, (record) => {
+      const budgets = (record.budgets ?? []).filter(
+        (b) => b.asset !== budget.asset,
+      );
+      budgets.push(budget);
+      record.budgets = budgets;
+    });
+  }
+
+  async removeBudget(id: string, asset: BudgetAsset): Promise<AgentRecord> {
+    return this.updateAgent(id, (record) => {
+      record.budgets = (record.budgets ?? []).filter((b) => b.asset !== asset);
+    });
+  }
+
+  async setSpendingLimit(id: string, sol: number): Promise<AgentRecord> {
+    if (!Number.isFinite(sol) || sol < 0) {
+      throw new Error(`Invalid spending limit: ${sol}`);
+    }
+    return this.updateAgent(id, (record) => {
+      record.spendingLimit = sol;
+    });
+  }
+
+  async checkBudgets(
+    id: string,
+    outflows: Map<BudgetAsset, number>,
+  ): Promise<void> {
+    const record = await this.getAgent(id);
+    if (!record) {
+      throw new Error(`Agent not found: ${id}`);
+    }
+    for (const [asset, amount] of outflows) {
+      const violation = findBudgetViolation(
+        record.budgets ?? [],
+        record.spendLog ?? [],
+        asset,
+        amount,
+      );
+      if (violation) {
+        throw new SpendingLimitError(
+          `${asset} ${violation.window} budget exceeded: ${(violation.spent + amount).toFixed(4)} > ${violation.limit.toFixed(4)}`,
+          id,
+          amount,
+          violation.spent,
+          violation.limit,
+          asset,
+          violation.window,
+        );
+      }
+    }
+  }
+
+  /**
+   * Debits a sent transaction: lifetime SOL, rolling-budget log entries and
+   * the destinations it paid (so they are no longer "new").
+   */
+  private async recordSpend(
+    id: string,
+    outflows: Map<BudgetAsset, number>,
+    destinations: string[],
+  ): Promise<void> {
+    await this.updateAgent(id, (record) => {
+      const timestamp = new Date().toISOString();
+      const log = pruneSpendLog(record.spendLog ?? []);
+      for (const [asset, amount] of outflows) {
+        if (amount > 0) {
+          log.push({ asset, amount, timestamp });
+        }
+      }
+      record.solSpent = (record.solSpent ?? 0) + (outflows.get(SOL_ASSET) ?? 0);
+      record.spendLog = log;
+      record.knownDestinations = Array.from(
+        new Set([...(record.knownDestinations ?? []), ...destinations]),
+      );
+    });
+  }
+
+  async getPolicy(id: string): Promise<TransactionPolicy> {
+    const record = await this.getAgent(id);
+    if (!record) {
+      throw new Error(`Agent not found: ${id}`);
+    }
+    return record.policy ?? {};
+  }
+
+  async setPolicy(id: string, policy: TransactionPolicy): Promise<AgentRecord> {
+    validatePolicy(policy);
+    return this.updateAgent(id, (record) => {
+      record.policy = policy;
+    });
+  }
+
+  /** Throws a PolicyViolationError when the agent policy rejects the tx. */
+  async checkPolicy(
+    id: string,
+    decoded: DecodedTransaction,
+    context: PolicyContext,
+  ): Promise<void> {
+    const policy = await this.getPolicy(id);
+    const violation = evaluatePolicy(policy, decoded, context);
+    if (violation) {
+      this.eventBus.emit("policy_rejected", { id, violation });
+      throw new PolicyViolationError(id, violation);
+    }
+  }
+
+  async setApprovalConfig(
+    id: string,
+    config: ApprovalConfig,
+  ): Promise<AgentRecord> {
+    if (
+      config.onPending !== undefined &&
+      config.onPending !== "wait" &&
+      config.onPending !== "skip"
+    ) {
+      throw new Error(`Invalid onPending mode: ${config.onPending}`);
+    }
+    return this.updateAgent(id, (record) => {
+      record.approval = config;
+    });
+  }
+
+  async setFeePolicy(id: string, policy: FeePolicy): Promise<AgentRecord> {
+    validateFeePolicy(policy);
+    return this.updateAgent(id, (record) => {
+      record.fees = policy;
+    });
+  }
+
+  async listApprovals(filter?: {
+    status?: ApprovalStatus;
+    agentId?: string;
+  }): Promise<ApprovalItem[]> {
+    return this.approvalQueue.list(filter);
+  }
+
+  async getApproval(approvalId: string): Promise<ApprovalItem | undefined> {
+    return this.approvalQueue.get(approvalId);
+  }
+
+  /**
+   * Approves a parked transaction: re-checks the agent's policy and limits,
+   * re-signs it
+   * with a fresh blockhash (or the current nonce, for a durable one) and
+   * sends it through the wallet pipeline.
+   */
+  async approveTransaction(
+    approvalId: string,
+    note?: string,
+  ): Promise<ApprovalItem> {
+    // Claimed before signing so a second approval cannot send it again
+    const item = await this.approvalQueue.decide(approvalId, "approving", note);
+    const outflows = new Map(Object.entries(item.outflows));
+
+    let sent: SendResult | undefined;
+    let violated = false;
+    try {
+      await this.checkSpendingLimit(item.agentId, outflows.get(SOL_ASSET) ?? 0);
+      await this.checkBudgets(item.agentId, outflows);
+
+      const wallet = await this.walletService.loadWallet(item.walletName);
+      if (item.paper) {
+        const { decoded, tokenInfo } = describePaperOperation(item.paper);
+        await this.checkPolicy(item.agentId, decoded, {
+          wallet: wallet.publicKey,
+          tokenInfo,
+        });
+        const paper = new PaperTokenService(this.paperLedger, {
+          agentId: item.agentId,
+          ledger: this.ledger,
+          events: this.eventBus,
+          approvalId,
+        });
+        sent = {
+          signature: await paper.replay(wallet, item.paper),
+          status: "confirmed",
+        };
+      } else {
+        const raw = Buffer.from(item.transaction ?? "", "base64");
+        const versioned = VersionedTransaction.deserialize(raw);
+        const tx: AnyTransaction =
+          versioned.version === "legacy" ? Transaction.from(raw) : versioned;
+        // The policy may have changed while it was parked
+        const { decoded, tokenInfo } = await this.inspectTransaction(
+          tx,
+          wallet.publicKey,
+        );
+        await this.checkPolicy(item.agentId, decoded, {
+          wallet: wallet.publicKey,
+          tokenInfo,
+        });
+        if (tx instanceof Transaction) {
+          tx.recentBlockhash = undefined;
+        } else {
+          tx.message.recentBlockhash = "";
+        }
+        // A durable copy gets its compute budget here
+        sent = await this.walletService.signAndSendTransaction(tx, wallet, {
+          feePolicy: (await this.getAgent(item.agentId))?.fees,
+        });
+      }
+      item.signature = sent.signature;
+      item.status = "approved";
+    } catch (error) {
+      if (error instanceof TransactionSendError) {
+        sent = error.result;
+        item.signature = sent.signature;
+      }
+      violated = error instanceof PolicyViolationError;
+      item.status = "failed";
+      item.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await this.approvalQueue.update(item);
+    await this.ledger.record({
+      approvalId,
+      agentId: item.agentId,
+      wallet: item.summary.feePayer ?? "",
+      kind: ledgerKindOf(item.summary),
+      status:
+        item.status === "approved"
+          ? "confirmed"
+          : violated
+            ? "rejected"
+            : sent?.status === "expired"
+              ? "expired"
+              : "failed",
+      signature: item.signature,
+      error: item.error,
+      slot: sent?.slot,
+      fee: sent?.fee,
+    });
+    if (item.status === "approved") {
+      await this.recordSpend(item.agentId, outflows, item.destinations);
+    } else if (sent?.status === "failed" && sent.fee !== undefined) {
+      // Landed with an error: only the network fee was charged
+      await this.recordSpend(
+        item.agentId,
+        new Map([[SOL_ASSET, sent.fee / LAMPORTS_PER_SOL]]),
+        [],
+      );
+    }
+    this.eventBus.emit("approval_decided", {
+      id: item.agentId,
+      approvalId,
+      status: item.status,
+      signature: item.signature,
+      error: item.error,
+    });
+    return item;
+  }
+
+  async rejectTransaction(
+    approvalId: string,
+    note?: string,
+  ): Promise<ApprovalItem> {
+    const item = await this.approvalQueue.decide(approvalId, "rejected", note);
+    await this.ledger.record({
+      approvalId,
+      agentId: item.agentId,
+      wallet: item.summary.feePayer ?? "",
+      kind: ledgerKindOf(item.summary),
+      status: "rejected",
+      error: note ? `Rejected by operator: ${note}` : "Rejected by operator",
+    });
+    this.eventBus.emit("approval_decided", {
+      id: item.agentId,
+      approvalId,
+      status: item.status,
+    });
+    return item;
+  }
+
+  /**
+   * The live guard's checks for paper agents, run against the instructions
+   * a live agent would sign: policy, lifetime limit, rolling budgets and
+   * approval. Parked operations are applied to the paper balances once
+   * approved.
+   */
+  private createPaperGuard(id: string): PaperGuard {
+    return {
+      beforeApply: async ({ operation, decoded, tokenInfo, outflows }) => {
+        const wallet = new PublicKey(operation.wallet);
+        await this.checkPolicy(id, decoded, { wallet, tokenInfo });
+        await this.enforceLimits(id, outflows);
+
+        const destinations = paidDestinations(decoded, wallet);
+        const record = await this.getAgent(id);
+        if (!record) {
+          throw new Error(`Agent not found: ${id}`);
+        }
+        const reasons = approvalReasons(record, outflows, destinations);
+        if (reasons.length > 0) {
+          if (operation.kind === "create_mint") {
+            throw new Error(
+              "Mint creation needs approval but has extra signers and cannot be parked",
+            );
+          }
+          return this.queueForApproval(record, {
+            paper: operation,
+            summary: summarizeTransaction(decoded),
+            outflows: Object.fromEntries(outflows),
+            destinations,
+            reasons,
+          });
+        }
+      },
+      afterApply: ({ operation, decoded, outflows }) =>
+        this.recordSpend(
+          id,
+          outflows,
+          paidDestinations(decoded, new PublicKey(operation.wallet)),
+        ),
+    };
+  }
+
+  /** Checks the lifetime limit and budgets, emitting limit_exceeded. */
+  private async enforceLimits(
+    id: string,
+    outflows: Map<BudgetAsset, number>,
+  ): Promise<void> {
+    try {
+      await this.checkSpendingLimit(id, outflows.get(SOL_ASSET) ?? 0);
+      await this.checkBudgets(id, outflows);
+    } catch (error) {
+      if (error instanceof SpendingLimitError) {
+        this.eventBus.emit("limit_exceeded", {
+          id,
+          asset: error.asset,
+          window: error.window,
+          attempted: error.attempted,
+          spent: error.spent,
+          limit: error.limit,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks every outgoing transaction of an agent run against its policy,
+   * lifetime SOL limit and rolling budgets before signing, parks it for
+   * operator approval when required, and debits transfers plus network fees
+   * once sent.
+   */
+  private createSpendingGuard(id: string): TransactionGuard {
+    const pending = new WeakMap<
+      object,
+      { outflows: Map<BudgetAsset, number>; destinations: string[] }
+    >();
+    return {
+      beforeSign: async (tx, wallet) => {
+        const { decoded, tokenInfo, outflows } = await this.inspectTransaction(
+          tx,
+          wallet,
+        );
+        await this.checkPolicy(id, decoded, { wallet, tokenInfo });
+        await this.enforceLimits(id, outflows);
+
+        const destinations = paidDestinations(decoded, wallet);
+        const record = await this.getAgent(id);
+        if (!record) {
+          throw new Error(`Agent not found: ${id}`);
+        }
+        const reasons = approvalReasons(record, outflows, destinations);
+        if (reasons.length > 0) {
+          return this.parkForApproval(
+            record,
+            tx,
+            decoded,
+            outflows,
+            destinations,
+            reasons,
+          );
+        }
+        pending.set(tx, { outflows, destinations });
+      },
+      afterSend: async (tx) => {
+        const entry = pending.get(tx);
+        if (entry) {
+          pending.delete(tx);
+          await this.recordSpend(id, entry.outflows, entry.destinations);
+        }
+      },
+      afterFailure: async (tx, _wallet, result) => {
+        // Nothing moved, but the network fee was charged
+        pending.delete(tx);
+        const fee = result.fee ?? (await this.walletService.estimateFee(tx));
+        await this.recordSpend(
+          id,
+          new Map([[SOL_ASSET, fee / LAMPORTS_PER_SOL]]),
+          [],
+        );
+      },
+    };
+  }
+
+  /**
+   * Queues a transaction for operator approval. In "wait" mode, blocks until
+   * it is decided and returns the signature of the approved send; otherwise
+   * throws an ApprovalError so the run moves on.
+   */
+  private async parkForApproval(
+    record: AgentRecord,
+    tx: AnyTransaction,
+    decoded: DecodedTransaction,
+    outflows: Map<BudgetAsset, number>,
+    destinations: string[],
+    reasons: string[],
+  ): Promise<string> {
+    const message =
+      tx instanceof VersionedTransaction ? tx.message : tx.compileMessage();
+    if (message.header.numRequiredSignatures > 1) {
       throw new Error(
-        `Operation would exceed spending limit: ${spent.toFixed(4)} > ${limit.toFixed(4)} SOL`,
+        "Transaction needs approval but has extra signers and cannot be parked",
       );
     }
+    tx = await this.durableCopy(tx, new PublicKey(record.walletAddress));
+    return this.queueForApproval(record, {
+      transaction: Buffer.from(
+        tx instanceof VersionedTransaction
+          ? tx.serialize()
+          : tx.serialize({
+              requireAllSignatures: false,
+              verifySignatures: false,
+            }),
+      ).toString("base64"),
+      summary: summarizeTransaction(decoded),
+      outflows: Object.fromEntries(outflows),
+      destinations,
+      reasons,
+    });
   }
 
-  private async updateAgent(record: AgentRecord): Promise<void> {
-    const all = await this.readAgents();
-    const index = all.findIndex((a) => a.id === record.id);
-    if (index === -1) {
-      throw new Error(`Agent not found: ${record.id}`);
+  /**
+   * A durable copy of a legacy transaction when the wallet has a nonce
+   * account, so a parked transaction stays valid however long it waits.
+   * The compute budget is dropped and set again, after the nonce advance,
+   * when it is approved.
+   */
+  private async durableCopy(
+    tx: AnyTransaction,
+    wallet: PublicKey,
+  ): Promise<AnyTransaction> {
+    if (
+      tx instanceof VersionedTransaction ||
+      advancedNonceAccount(tx.instructions) ||
+      !(await this.walletService.getNonceStatus(wallet))
+    ) {
+      return tx;
     }
-    all[index] = record;
-    await this.writeAgents(all);
+    return this.walletService.buildDurableTransaction(
+      wallet,
+      tx.instructions.filter((ix) => !isComputeBudgetInstruction(ix)),
+      tx.feePayer,
+    );
+  }
+
+  /**
+   * Adds a live transaction or paper operation to the approval queue and
+   * waits for the decision, or throws, as the agent's onPending says.
+   */
+  private async queueForApproval(
+    record: AgentRecord,
+    parked: Pick<
+      ApprovalItem,
+      | "transaction"
+      | "paper"
+      | "summary"
+      | "outflows"
+      | "destinations"
+      | "reasons"
+    >,
+  ): Promise<string> {
+    const { reasons } = parked;
+    const item = await this.approvalQueue.enqueue({
+      agentId: record.id,
+      walletName: record.walletName,
+      ...parked,
+      expiresAt: new Date(Date.now() + APPROVAL_TTL_MS).toISOString(),
+    });
+    this.eventBus.emit("approval_requested", {
+      id: record.id,
+      approvalId: item.id,
+      reasons,
+    });
+
+    if (record.approval?.onPending !== "wait") {
+      throw new ApprovalError(
+        `Transaction parked for approval: ${item.id}`,
+        item.id,
+        "pending",
+      );
+    }
+
+    while (true) {
+      await sleep(APPROVAL_POLL_MS);
+      const current = await this.approvalQueue.get(item.id);
+      if (
+        !current ||
+        current.status === "pending" ||
+        current.status === "approving"
+      ) {
+        continue;
+      }
+      if (current.status === "approved" && current.signature) {
+        return current.signature;
+      }
+      throw new ApprovalError(
+        `Approval ${item.id} ${current.status}${current.error ? `: ${current.error}` : ""}`,
+        item.id,
+        current.status === "approved" ? "failed" : current.status,
+      );
+    }
+  }
+
+  /**
+   * Decodes a prepared transaction, resolves mint and decimals for its SPL
+   * instructions and measures what leaves the wallet: SOL (fee included) and
+   * per-mint token amounts.
+   */
+  private async inspectTransaction(
+    tx: AnyTransaction,
+    wallet: PublicKey,
+  ): Promise<{
+    decoded: DecodedTransaction;
+    tokenInfo: Map<number, { mint: string; decimals: number }>;
+    outflows: Map<BudgetAsset, number>;
+  }> {
+    const decoded = decodeTransaction(
+      await this.walletService.resolveTransaction(tx),
+    );
+    const lamports =
+      outgoingLamports(decoded, wallet) +
+      BigInt(await this.walletService.estimateFee(tx));
+    const outflows = new Map<BudgetAsset, number>([
+      [SOL_ASSET, Number(lamports) / LAMPORTS_PER_SOL],
+    ]);
+    const tokenInfo = new Map<number, { mint: string; decimals: number }>();
+
+    for (const [index, ix] of decoded.instructions.entries()) {
+      if (ix.kind === "swap") {
+        // The pool program moves the input by CPI, so count it here
+        const decimals = await this.tokenService.getMintDecimals(
+          new PublicKey(ix.sourceMint),
+        );
+        tokenInfo.set(index, { mint: ix.sourceMint, decimals });
+        if (ix.owner === wallet.toBase58()) {
+          const amount = Number(ix.amountIn) / 10 ** decimals;
+          outflows.set(
+            ix.sourceMint,
+            (outflows.get(ix.sourceMint) ?? 0) + amount,
+          );
+        }
+        continue;
+      }
+      if (
+        ix.kind !== "spl_transfer" &&
+        ix.kind !== "spl_mint" &&
+        ix.kind !== "spl_burn"
+      ) {
+        continue;
+      }
+      const mint =
+        ix.kind !== "spl_transfer" || ix.mint !== undefined
+          ? new PublicKey(ix.mint as string)
+          : await this.tokenService.getTokenAccountMint(
+              new PublicKey(ix.source),
+            );
+      const decimals = await this.tokenService.getMintDecimals(mint);
+      const asset = mint.toBase58();
+      tokenInfo.set(index, { mint: asset, decimals });
+
+      if (ix.kind !== "spl_mint" && ix.owner === wallet.toBase58()) {
+        const amount = Number(ix.amount) / 10 ** decimals;
+        outflows.set(asset, (outflows.get(asset) ?? 0) + amount);
+      }
+    }
+    return { decoded, tokenInfo, outflows };
+  }
+
+  /**
+   * Reads the agent store, applies `change` and writes it back. Changes are
+   * serialized, so concurrent runs debiting the same agent do not overwrite
+   * each other; a change that throws leaves the store as it was.
+   */
+  private updateAgents<T>(change: (all: AgentRecord[]) => T): Promise<T> {
+    const write = this.agentWrites.then(async () => {
+      const all = await this.readAgents();
+      const result = change(all);
+      await this.writeAgents(all);
+      return result;
+    });
+    this.agentWrites = write.catch(() => undefined);
+    return write;
+  }
+
+  /** Applies `change` to the stored record of agent `id`. */
+  private updateAgent(
+    id: string,
+    change: (record: AgentRecord) => void,
+  ): Promise<AgentRecord> {
+    return this.updateAgents((all) => {
+      const record = all.find((a) => a.id === id);
+      if (!record) {
+        throw new Error(`Agent not found: ${id}`);
+      }
+      change(record);
+      record.lastUpdated = new Date().toISOString();
+      return record;
+    });
   }
 
   private async readAgents(): Promise<AgentRecord[]> {
@@ -0,0 +1,67 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { RUN_STORE } from "../config.js";
+import { AgentRun, RunStatus } from "./AgentRun.js";
+
+/**
+ * Persistent record of agent runs, stored as JSON next to the agent registry.
+ * Writes are serialized so per-iteration updates from concurrent runs do not
+ * overwrite each other.
+ */
+export class RunStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly storePath: string = RUN_STORE) {}
+
+  /** Inserts or replaces a run by id. */
+  save(run: AgentRun): Promise<void> {
+    const snapshot: AgentRun = structuredClone(run);
+    const write = this.writes.then(async () => {
+      const all = await this.readRuns();
+      const index = all.findIndex((r) => r.id === snapshot.id);
+      if (index === -1) {
+        all.push(snapshot);
+      } else {
+        all[index] = snapshot;
+      }
+      await this.writeRuns(all);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async get(id: string): Promise<AgentRun | undefined> {
+    await this.writes;
+    return (await this.readRuns()).find((run) => run.id === id);
+  }
+
+  /** Runs matching the filter, newest first. */
+  async list(filter?: {
+    agentId?: string;
+    status?: RunStatus;
+  }): Promise<AgentRun[]> {
+    await this.writes;
+    return (await this.readRuns())
+      .filter(
+        (run) =>
+          (!filter?.agentId || run.agentId === filter.agentId) &&
+          (!filter?.status || run.status === filter.status),
+      )
+      .reverse();
+  }
+
+  private async readRuns(): Promise<AgentRun[]> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf8");
+      return JSON.parse(raw) as AgentRun[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeRuns(runs: AgentRun[]): Promise<void> {
+    const dir = path.dirname(this.storePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(this.storePath, JSON.stringify(runs, null, 2), "utf8");
+  }
+}
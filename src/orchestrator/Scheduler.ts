@@ -0,0 +1,210 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { SCHEDULE_STORE } from "../config.js";
+import { nextCronTime, parseCron } from "./cron.js";
+
+/** A recurring strategy run for one agent. */
+export type Schedule = {
+  id: string;
+  agentId: string;
+  strategy: string;
+  /** Strategy options, same keys as a run's `config`. */
+  config: Record<string, unknown>;
+  /** Five-field cron expression, evaluated in UTC. */
+  cron?: string;
+  /** Fixed interval between ticks, used when no cron is set. */
+  intervalMs?: number;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunId?: string;
+  /** Ticks skipped because the previous run was still going. */
+  skippedTicks: number;
+  createdAt: string;
+};
+
+export type ScheduleInput = Pick<
+  Schedule,
+  "agentId" | "strategy" | "config" | "cron" | "intervalMs"
+> & { enabled?: boolean };
+
+/**
+ * Starts a run for a due schedule. Resolves with the run id, or undefined
+ * when the tick was skipped.
+ */
+export type ScheduleTrigger = (schedule: Schedule) => Promise<string | void>;
+
+const TICK_MS = 1000;
+
+/** When a schedule fires next, counting from `after`. */
+function nextRunAfter(schedule: Schedule, after: Date): string {
+  if (schedule.cron) {
+    return nextCronTime(schedule.cron, after).toISOString();
+  }
+  return new Date(
+    after.getTime() + (schedule.intervalMs as number),
+  ).toISOString();
+}
+
+/**
+ * Persistent schedules with a polling loop. Schedules are stored as JSON so
+ * the CLI can manage them while the dashboard server runs the loop; every
+ * tick re-reads the store and fires the schedules that are due.
+ */
+export class Scheduler {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly trigger: ScheduleTrigger,
+    private readonly storePath: string = SCHEDULE_STORE,
+  ) {}
+
+  async add(input: ScheduleInput): Promise<Schedule> {
+    if (!input.cron === !input.intervalMs) {
+      throw new Error("Provide either a cron expression or an interval");
+    }
+    if (input.cron) {
+      parseCron(input.cron);
+    }
+    if (
+      input.intervalMs !== undefined &&
+      (!Number.isFinite(input.intervalMs) || input.intervalMs < TICK_MS)
+    ) {
+      throw new Error(`Interval must be at least ${TICK_MS} ms`);
+    }
+    const schedule: Schedule = {
+      id: randomUUID(),
+      agentId: input.agentId,
+      strategy: input.strategy,
+      config: input.config,
+      cron: input.cron,
+      intervalMs: input.intervalMs,
+      enabled: input.enabled ?? true,
+      skippedTicks: 0,
+      createdAt: new Date().toISOString(),
+    };
+    if (schedule.enabled) {
+      schedule.nextRunAt = nextRunAfter(schedule, new Date());
+    }
+    const all = await this.readSchedules();
+    all.push(schedule);
+    await this.writeSchedules(all);
+    return schedule;
+  }
+
+  async list(agentId?: string): Promise<Schedule[]> {
+    const all = await this.readSchedules();
+    return all.filter((s) => !agentId || s.agentId === agentId);
+  }
+
+  async get(id: string): Promise<Schedule | undefined> {
+    return (await this.readSchedules()).find((s) => s.id === id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const all = await this.readSchedules();
+    const remaining = all.filter((s) => s.id !== id);
+    if (remaining.length === all.length) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+    await this.writeSchedules(remaining);
+  }
+
+  /** Enables or pauses one schedule without touching the others. */
+  async setEnabled(id: string, enabled: boolean): Promise<Schedule> {
+    const all = await this.readSchedules();
+    const schedule = all.find((s) => s.id === id);
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+    schedule.enabled = enabled;
+    schedule.nextRunAt = enabled
+      ? nextRunAfter(schedule, new Date())
+      : undefined;
+    await this.writeSchedules(all);
+    return schedule;
+  }
+
+  /** Starts the polling loop. Safe to call more than once. */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.tick().catch((error) =>
+        console.error("Scheduler tick failed:", error),
+      );
+    }, TICK_MS);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Fires every enabled schedule whose next run time has passed. */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      const all = await this.readSchedules();
+      const due = all.filter(
+        (s) =>
+          s.enabled &&
+          s.nextRunAt !== undefined &&
+          new Date(s.nextRunAt).getTime() <= now.getTime(),
+      );
+      if (due.length === 0) {
+        return;
+      }
+      for (const schedule of due) {
+        try {
+          const runId = await this.trigger(schedule);
+          if (runId) {
+            schedule.lastRunAt = now.toISOString();
+            schedule.lastRunId = runId;
+          } else {
+            schedule.skippedTicks += 1;
+          }
+        } catch (error) {
+          console.error(`Schedule ${schedule.id} failed to start:`, error);
+        }
+        schedule.nextRunAt = nextRunAfter(schedule, now);
+      }
+      // Re-read so edits made by other processes during the tick survive
+      const latest = await this.readSchedules();
+      for (const schedule of due) {
+        const index = latest.findIndex((s) => s.id === schedule.id);
+        if (index !== -1 && latest[index].enabled) {
+          latest[index] = { ...latest[index], ...schedule };
+        }
+      }
+      await this.writeSchedules(latest);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async readSchedules(): Promise<Schedule[]> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf8");
+      return JSON.parse(raw) as Schedule[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeSchedules(schedules: Schedule[]): Promise<void> {
+    const dir = path.dirname(this.storePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      this.storePath,
+      JSON.stringify(schedules, null, 2),
+      "utf8",
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/** A parsed five-field cron expression: minute hour day month weekday. */
+type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether day-of-month / day-of-week were restricted (not "*"). */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+};
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end =
+        to === undefined ? (stepText === undefined ? start : max) : Number(to);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron value "${part}" (expected ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/** Parses "m h dom mon dow"; throws on malformed expressions. */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields`,
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(field, ...FIELD_RANGES[i]),
+  );
+  // Both 0 and 7 mean Sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: fields[2] !== "*",
+    weekdaysRestricted: fields[4] !== "*",
+  };
+}
+
+function dayMatches(cron: CronFields, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+  // Standard cron: when both day fields are restricted, either may match
+  if (cron.daysRestricted && cron.weekdaysRestricted) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+/**
+ * The first minute strictly after `after` that matches the expression,
+ * evaluated in UTC.
+ */
+export function nextCronTime(expression: string, after: Date): Date {
+  const cron = parseCron(expression);
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+  // Five years covers every valid expression, including Feb 29 only
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!cron.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+    } else if (!dayMatches(cron, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+    } else if (!cron.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
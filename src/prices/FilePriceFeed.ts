@@ -0,0 +1,36 @@
+import { loadSeries, SeriesPoint } from "../backtest/series.js";
+import { PriceFeed, PriceQuote } from "./PriceFeed.js";
+
+/**
+ * Replays the prices of a CSV or JSON series, one point per quote. Each
+ * point is published when it is first read; after the last one the feed
+ * keeps returning it, so it turns stale and strategies hold.
+ */
+export class FilePriceFeed implements PriceFeed {
+  private points?: Promise<SeriesPoint[]>;
+  private index = 0;
+  private last?: PriceQuote;
+
+  constructor(private readonly filePath: string) {}
+
+  async getPrice(): Promise<PriceQuote> {
+    this.points ??= loadSeries(this.filePath).then((series) =>
+      series.filter((point) => point.price !== undefined),
+    );
+    const points = await this.points;
+    if (points.length === 0) {
+      throw new Error(`No prices in ${this.filePath}`);
+    }
+    if (this.index < points.length) {
+      const point = points[this.index];
+      this.index += 1;
+      this.last = {
+        price: point.price as number,
+        confidence: point.confidence,
+        publishedAt: new Date(),
+        source: `file:${this.filePath}`,
+      };
+    }
+    return this.last as PriceQuote;
+  }
+}
@@ -0,0 +1,58 @@
+import { PublicKey } from "@solana/web3.js";
+import { PriceFeed, PriceQuote } from "./PriceFeed.js";
+
+type OracleResponse = {
+  price?: unknown;
+  confidence?: unknown;
+  publishedAt?: unknown;
+  timestamp?: unknown;
+};
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Reads prices from an HTTP endpoint returning JSON like
+ * `{ "price": 1.02, "confidence": 0.001, "publishedAt": "<iso>" }`.
+ * `{mint}` in the URL is replaced with the mint address. Without a
+ * publish time the response time is used.
+ */
+export class HttpPriceFeed implements PriceFeed {
+  constructor(private readonly url: string) {}
+
+  async getPrice(mint: PublicKey): Promise<PriceQuote> {
+    const url = this.url.replaceAll("{mint}", mint.toBase58());
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      // A redirect could leave the hosts the feed was allowed for
+      redirect: "error",
+    });
+    if (!response.ok) {
+      throw new Error(`Price oracle returned ${response.status}`);
+    }
+    const body = (await response.json()) as OracleResponse;
+    const price = Number(body.price);
+    if (!Number.isFinite(price)) {
+      throw new Error(
+        `Price oracle returned no price: ${JSON.stringify(body)}`,
+      );
+    }
+    const published = body.publishedAt ?? body.timestamp;
+    let publishedAt = new Date();
+    if (published !== undefined) {
+      const numeric = Number(published);
+      publishedAt = Number.isFinite(numeric)
+        ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+        : new Date(String(published));
+    }
+    if (Number.isNaN(publishedAt.getTime())) {
+      throw new Error(`Price oracle returned an invalid time: ${published}`);
+    }
+    return {
+      price,
+      confidence:
+        body.confidence !== undefined ? Number(body.confidence) : undefined,
+      publishedAt,
+      source: url,
+    };
+  }
+}
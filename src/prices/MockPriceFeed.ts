@@ -0,0 +1,11 @@
+import { PriceFeed, PriceQuote } from "./PriceFeed.js";
+
+/** Random walk starting at 1.0, moving up to ±5% per quote. */
+export class MockPriceFeed implements PriceFeed {
+  private price = 1.0;
+
+  async getPrice(): Promise<PriceQuote> {
+    this.price *= 0.95 + Math.random() * 0.1;
+    return { price: this.price, publishedAt: new Date(), source: "mock" };
+  }
+}
@@ -0,0 +1,44 @@
+import { PublicKey } from "@solana/web3.js";
+
+/** A price observation. `confidence` is in the same units as `price`. */
+export type PriceQuote = {
+  price: number;
+  confidence?: number;
+  publishedAt: Date;
+  source: string;
+};
+
+export interface PriceFeed {
+  getPrice(mint: PublicKey): Promise<PriceQuote>;
+}
+
+/** Limits beyond which a quote is too unreliable to act on. */
+export type PriceChecks = {
+  /** Oldest acceptable quote, in ms. */
+  maxAgeMs?: number;
+  /** Largest acceptable confidence interval as a fraction of the price. */
+  maxConfidenceRatio?: number;
+};
+
+/** Why a quote should not be acted on, or undefined when it is usable. */
+export function checkQuote(
+  quote: PriceQuote,
+  checks: PriceChecks,
+  now: Date = new Date(),
+): string | undefined {
+  if (!Number.isFinite(quote.price) || quote.price <= 0) {
+    return `invalid price ${quote.price}`;
+  }
+  const age = now.getTime() - quote.publishedAt.getTime();
+  if (checks.maxAgeMs !== undefined && age > checks.maxAgeMs) {
+    return `stale (${Math.round(age / 1000)}s old, max ${Math.round(checks.maxAgeMs / 1000)}s)`;
+  }
+  if (
+    checks.maxConfidenceRatio !== undefined &&
+    quote.confidence !== undefined &&
+    quote.confidence / quote.price > checks.maxConfidenceRatio
+  ) {
+    return `confidence ±${quote.confidence} exceeds ${(checks.maxConfidenceRatio * 100).toFixed(2)}% of price`;
+  }
+  return undefined;
+}
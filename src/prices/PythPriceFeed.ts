@@ -0,0 +1,66 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL } from "../config.js";
+import { PriceFeed, PriceQuote } from "./PriceFeed.js";
+
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_PRICE_ACCOUNT = 3;
+const PYTH_STATUS_TRADING = 1;
+
+/**
+ * Decodes a Pyth (v2) price account: exponent, publish time and the
+ * aggregate price, confidence and status.
+ */
+export function parsePythPrice(data: Buffer): {
+  price: number;
+  confidence: number;
+  publishedAt: Date;
+  trading: boolean;
+} {
+  if (data.length < 240 || data.readUInt32LE(0) !== PYTH_MAGIC) {
+    throw new Error("Not a Pyth account");
+  }
+  if (data.readUInt32LE(8) !== PYTH_PRICE_ACCOUNT) {
+    throw new Error("Not a Pyth price account");
+  }
+  const scale = 10 ** data.readInt32LE(20);
+  return {
+    price: Number(data.readBigInt64LE(208)) * scale,
+    confidence: Number(data.readBigUInt64LE(216)) * scale,
+    publishedAt: new Date(Number(data.readBigInt64LE(96)) * 1000),
+    trading: data.readUInt32LE(224) === PYTH_STATUS_TRADING,
+  };
+}
+
+/** Reads one Pyth price account through the RPC connection. */
+export class PythPriceFeed implements PriceFeed {
+  private readonly connection: Connection;
+
+  constructor(
+    private readonly priceAccount: PublicKey,
+    connection?: Connection,
+  ) {
+    this.connection = connection ?? new Connection(RPC_URL, "confirmed");
+  }
+
+  async getPrice(): Promise<PriceQuote> {
+    const info = await this.connection.getAccountInfo(
+      this.priceAccount,
+      "confirmed",
+    );
+    if (!info) {
+      throw new Error(
+        `Pyth account not found: ${this.priceAccount.toBase58()}`,
+      );
+    }
+    const parsed = parsePythPrice(info.data);
+    if (!parsed.trading) {
+      throw new Error("Pyth price is not trading");
+    }
+    return {
+      price: parsed.price,
+      confidence: parsed.confidence,
+      publishedAt: parsed.publishedAt,
+      source: `pyth:${this.priceAccount.toBase58()}`,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import path from "node:path";
+import { PublicKey } from "@solana/web3.js";
+import { PRICE_FEED_DIR, PRICE_FEED_HOSTS } from "../config.js";
+import { PriceFeed } from "./PriceFeed.js";
+import { MockPriceFeed } from "./MockPriceFeed.js";
+import { FilePriceFeed } from "./FilePriceFeed.js";
+import { HttpPriceFeed } from "./HttpPriceFeed.js";
+import { PythPriceFeed } from "./PythPriceFeed.js";
+
+/**
+ * Throws unless a feed spec from an API caller may be used: file feeds must
+ * be inside PRICE_FEED_DIR and http(s) feeds on a host in PRICE_FEED_HOSTS,
+ * so callers cannot read local files or make the server fetch any URL.
+ */
+export function checkPriceFeedSpec(spec: string): void {
+  if (spec.startsWith("file:")) {
+    const root = PRICE_FEED_DIR && path.resolve(PRICE_FEED_DIR);
+    const relative = root
+      ? path.relative(root, path.resolve(spec.slice("file:".length)))
+      : "";
+    if (
+      !root ||
+      !relative ||
+      relative.startsWith("..") ||
+      path.isAbsolute(relative)
+    ) {
+      throw new Error(
+        `File price feeds must be inside PRICE_FEED_DIR${root ? ` (${root})` : ", which is not set"}`,
+      );
+    }
+    return;
+  }
+  if (spec.startsWith("http://") || spec.startsWith("https://")) {
+    let host: string;
+    try {
+      host = new URL(spec).hostname.toLowerCase();
+    } catch {
+      throw new Error(`Invalid price feed URL: ${spec}`);
+    }
+    if (!PRICE_FEED_HOSTS.includes(host)) {
+      throw new Error(`Price feed host ${host} is not in PRICE_FEED_HOSTS`);
+    }
+  }
+}
+
+/**
+ * Builds a feed from its run option: "mock", "file:<path>", an http(s)
+ * URL, or "pyth:<price account>".
+ */
+export function createPriceFeed(spec: string): PriceFeed {
+  if (spec === "mock") {
+    return new MockPriceFeed();
+  }
+  if (spec.startsWith("file:")) {
+    return new FilePriceFeed(spec.slice("file:".length));
+  }
+  if (spec.startsWith("http://") || spec.startsWith("https://")) {
+    return new HttpPriceFeed(spec);
+  }
+  if (spec.startsWith("pyth:")) {
+    return new PythPriceFeed(new PublicKey(spec.slice("pyth:".length)));
+  }
+  throw new Error(
+    `Unknown price feed "${spec}" (use mock, file:<path>, an http(s) URL or pyth:<account>)`,
+  );
+}
@@ -1,5 +1,6 @@
-import { PublicKey, Transaction } from "@solana/web3.js";
+import { ComputeBudgetProgram, PublicKey } from "@solana/web3.js";
 import { PROGRAM_ALLOWLIST } from "../config.js";
+import { ResolvedTransaction } from "../wallet/types.js";
 
 export class ProgramAllowlist {
   private readonly allowedPrograms: Set<string>;
@@ -14,10 +15,15 @@ export class ProgramAllowlist {
       // Empty allowlist = allow all
       return true;
     }
-    return this.allowedPrograms.has(programId.toBase58());
+    // The wallet sets every transaction's compute budget itself
+    return (
+      this.allowedPrograms.has(programId.toBase58()) ||
+      programId.equals(ComputeBudgetProgram.programId)
+    );
   }
 
-  validateTransaction(tx: Transaction): void {
+  /** Checks every instruction; resolve v0 lookup tables first. */
+  validateTransaction(tx: ResolvedTransaction): void {
     if (this.allowedPrograms.size === 0) {
       return;
     }
@@ -0,0 +1,131 @@
+/** Asset key for budgets: "SOL" or an SPL mint address. */
+export type BudgetAsset = string;
+
+export const SOL_ASSET: BudgetAsset = "SOL";
+
+export type BudgetWindow = "perTransaction" | "perHour" | "perDay" | "perWeek";
+
+/** Limits for one asset, in UI units (SOL or whole tokens). */
+export type AgentBudget = {
+  asset: BudgetAsset;
+  perTransaction?: number;
+  perHour?: number;
+  perDay?: number;
+  perWeek?: number;
+};
+
+export type SpendEntry = {
+  asset: BudgetAsset;
+  amount: number;
+  timestamp: string;
+};
+
+export type BudgetWindowReport = {
+  window: BudgetWindow;
+  limit: number;
+  spent: number;
+  remaining: number;
+};
+
+export type BudgetReport = {
+  asset: BudgetAsset;
+  windows: BudgetWindowReport[];
+};
+
+export type BudgetViolation = {
+  asset: BudgetAsset;
+  window: BudgetWindow;
+  attempted: number;
+  spent: number;
+  limit: number;
+};
+
+export const BUDGET_WINDOWS: BudgetWindow[] = [
+  "perTransaction",
+  "perHour",
+  "perDay",
+  "perWeek",
+];
+
+const WINDOW_MS: Record<Exclude<BudgetWindow, "perTransaction">, number> = {
+  perHour: 60 * 60 * 1000,
+  perDay: 24 * 60 * 60 * 1000,
+  perWeek: 7 * 24 * 60 * 60 * 1000,
+};
+
+function spentWithin(
+  log: SpendEntry[],
+  asset: BudgetAsset,
+  window: BudgetWindow,
+  now: number,
+): number {
+  if (window === "perTransaction") {
+    return 0;
+  }
+  const since = now - WINDOW_MS[window];
+  return log
+    .filter(
+      (entry) =>
+        entry.asset === asset && new Date(entry.timestamp).getTime() > since,
+    )
+    .reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+/**
+ * Returns the first window that spending `amount` of `asset` would break,
+ * or null when the outflow fits every configured window.
+ */
+export function findBudgetViolation(
+  budgets: AgentBudget[],
+  log: SpendEntry[],
+  asset: BudgetAsset,
+  amount: number,
+  now: number = Date.now(),
+): BudgetViolation | null {
+  const budget = budgets.find((b) => b.asset === asset);
+  if (!budget) {
+    return null;
+  }
+  for (const window of BUDGET_WINDOWS) {
+    const limit = budget[window];
+    if (limit === undefined) {
+      continue;
+    }
+    const spent = spentWithin(log, asset, window, now);
+    if (spent + amount > limit) {
+      return { asset, window, attempted: amount, spent, limit };
+    }
+  }
+  return null;
+}
+
+export function buildBudgetReport(
+  budgets: AgentBudget[],
+  log: SpendEntry[],
+  now: number = Date.now(),
+): BudgetReport[] {
+  return budgets.map((budget) => ({
+    asset: budget.asset,
+    windows: BUDGET_WINDOWS.filter((w) => budget[w] !== undefined).map(
+      (window) => {
+        const limit = budget[window] as number;
+        const spent = spentWithin(log, budget.asset, window, now);
+        return {
+          window,
+          limit,
+          spent,
+          remaining: Math.max(limit - spent, 0),
+        };
+      },
+    ),
+  }));
+}
+
+/** Drops entries older than the longest rolling window. */
+export function pruneSpendLog(
+  log: SpendEntry[],
+  now: number = Date.now(),
+): SpendEntry[] {
+  const since = now - WINDOW_MS.perWeek;
+  return log.filter((entry) => new Date(entry.timestamp).getTime() > since);
+}
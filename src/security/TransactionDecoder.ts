@@ -0,0 +1,293 @@
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeInstruction,
+  isBurnCheckedInstruction,
+  isBurnInstruction,
+  isCloseAccountInstruction,
+  isMintToCheckedInstruction,
+  isMintToInstruction,
+  isTransferCheckedInstruction,
+  isTransferInstruction,
+} from "@solana/spl-token";
+import { SWAP_PROGRAM_ID } from "../config.js";
+import { decodeSwapInstruction } from "../swaps/ConstantProductSwap.js";
+import { ResolvedTransaction } from "../wallet/types.js";
+
+export type DecodedInstruction =
+  | {
+      kind: "sol_transfer";
+      programId: string;
+      from: string;
+      to: string;
+      lamports: bigint;
+    }
+  | {
+      kind: "create_account";
+      programId: string;
+      from: string;
+      newAccount: string;
+      lamports: bigint;
+    }
+  | {
+      kind: "spl_transfer";
+      programId: string;
+      source: string;
+      destination: string;
+      owner: string;
+      amount: bigint;
+      mint?: string;
+    }
+  | {
+      kind: "spl_mint";
+      programId: string;
+      mint: string;
+      destination: string;
+      authority: string;
+      amount: bigint;
+    }
+  | {
+      kind: "spl_burn";
+      programId: string;
+      account: string;
+      mint: string;
+      owner: string;
+      amount: bigint;
+    }
+  | {
+      kind: "close_account";
+      programId: string;
+      account: string;
+      destination: string;
+      owner: string;
+    }
+  | {
+      kind: "swap";
+      programId: string;
+      pool: string;
+      owner: string;
+      source: string;
+      destination: string;
+      sourceMint: string;
+      destinationMint: string;
+      amountIn: bigint;
+      minimumOut: bigint;
+    }
+  | {
+      kind: "compute_budget";
+      programId: string;
+      units?: number;
+      /** Priority fee price, micro-lamports per compute unit. */
+      microLamports?: bigint;
+    }
+  | { kind: "unknown"; programId: string };
+
+export type DecodedTransaction = {
+  feePayer: string | null;
+  instructions: DecodedInstruction[];
+};
+
+/**
+ * Decodes the instructions this wallet knows how to reason about (System
+ * transfers/account creation, SPL Token and Token-2022 transfers/mints/
+ * burns/closes, pool swaps and compute budget settings). Anything else is
+ * reported as `unknown` with its program id. v0 transactions are decoded
+ * after `WalletService.resolveTransaction()` has loaded their lookup tables.
+ */
+export function decodeTransaction(tx: ResolvedTransaction): DecodedTransaction {
+  return {
+    feePayer: tx.feePayer?.toBase58() ?? null,
+    instructions: tx.instructions.map(decodeInstructionSafe),
+  };
+}
+
+function decodeInstructionSafe(ix: TransactionInstruction): DecodedInstruction {
+  const programId = ix.programId.toBase58();
+  try {
+    if (ix.programId.equals(SystemProgram.programId)) {
+      return decodeSystemInstruction(ix);
+    }
+    if (
+      ix.programId.equals(TOKEN_PROGRAM_ID) ||
+      ix.programId.equals(TOKEN_2022_PROGRAM_ID)
+    ) {
+      return decodeTokenInstruction(ix);
+    }
+    if (ix.programId.equals(ComputeBudgetProgram.programId)) {
+      return decodeComputeBudgetInstruction(ix);
+    }
+    if (programId === SWAP_PROGRAM_ID) {
+      const swap = decodeSwapInstruction(ix);
+      if (swap) {
+        return { kind: "swap", programId, ...swap };
+      }
+    }
+  } catch {
+    // Fall through: malformed or unsupported layouts are treated as unknown
+  }
+  return { kind: "unknown", programId };
+}
+
+function decodeSystemInstruction(
+  ix: TransactionInstruction,
+): DecodedInstruction {
+  const programId = ix.programId.toBase58();
+  const type = SystemInstruction.decodeInstructionType(ix);
+  if (type === "Transfer") {
+    const { fromPubkey, toPubkey, lamports } =
+      SystemInstruction.decodeTransfer(ix);
+    return {
+      kind: "sol_transfer",
+      programId,
+      from: fromPubkey.toBase58(),
+      to: toPubkey.toBase58(),
+      lamports: BigInt(lamports),
+    };
+  }
+  if (type === "Create" || type === "CreateWithSeed") {
+    const { fromPubkey, newAccountPubkey, lamports } =
+      type === "Create"
+        ? SystemInstruction.decodeCreateAccount(ix)
+        : SystemInstruction.decodeCreateWithSeed(ix);
+    return {
+      kind: "create_account",
+      programId,
+      from: fromPubkey.toBase58(),
+      newAccount: newAccountPubkey.toBase58(),
+      lamports: BigInt(lamports),
+    };
+  }
+  return { kind: "unknown", programId };
+}
+
+function decodeComputeBudgetInstruction(
+  ix: TransactionInstruction,
+): DecodedInstruction {
+  const programId = ix.programId.toBase58();
+  const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+  if (type === "SetComputeUnitLimit") {
+    const { units } = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix);
+    return { kind: "compute_budget", programId, units };
+  }
+  if (type === "SetComputeUnitPrice") {
+    const { microLamports } =
+      ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix);
+    return {
+      kind: "compute_budget",
+      programId,
+      microLamports: BigInt(microLamports),
+    };
+  }
+  return { kind: "compute_budget", programId };
+}
+
+function decodeTokenInstruction(
+  ix: TransactionInstruction,
+): DecodedInstruction {
+  const programId = ix.programId.toBase58();
+  const decoded = decodeInstruction(ix, ix.programId);
+  if (isTransferInstruction(decoded)) {
+    return {
+      kind: "spl_transfer",
+      programId,
+      source: decoded.keys.source.pubkey.toBase58(),
+      destination: decoded.keys.destination.pubkey.toBase58(),
+      owner: decoded.keys.owner.pubkey.toBase58(),
+      amount: BigInt(decoded.data.amount),
+    };
+  }
+  if (isTransferCheckedInstruction(decoded)) {
+    return {
+      kind: "spl_transfer",
+      programId,
+      source: decoded.keys.source.pubkey.toBase58(),
+      destination: decoded.keys.destination.pubkey.toBase58(),
+      owner: decoded.keys.owner.pubkey.toBase58(),
+      amount: BigInt(decoded.data.amount),
+      mint: decoded.keys.mint.pubkey.toBase58(),
+    };
+  }
+  if (isMintToInstruction(decoded) || isMintToCheckedInstruction(decoded)) {
+    return {
+      kind: "spl_mint",
+      programId,
+      mint: decoded.keys.mint.pubkey.toBase58(),
+      destination: decoded.keys.destination.pubkey.toBase58(),
+      authority: decoded.keys.authority.pubkey.toBase58(),
+      amount: BigInt(decoded.data.amount),
+    };
+  }
+  if (isBurnInstruction(decoded) || isBurnCheckedInstruction(decoded)) {
+    return {
+      kind: "spl_burn",
+      programId,
+      account: decoded.keys.account.pubkey.toBase58(),
+      mint: decoded.keys.mint.pubkey.toBase58(),
+      owner: decoded.keys.owner.pubkey.toBase58(),
+      amount: BigInt(decoded.data.amount),
+    };
+  }
+  if (isCloseAccountInstruction(decoded)) {
+    return {
+      kind: "close_account",
+      programId,
+      account: decoded.keys.account.pubkey.toBase58(),
+      destination: decoded.keys.destination.pubkey.toBase58(),
+      owner: decoded.keys.authority.pubkey.toBase58(),
+    };
+  }
+  return { kind: "unknown", programId };
+}
+
+/**
+ * Lamports that leave `owner` through the decoded instructions (transfers and
+ * account funding). Network fees are not included.
+ */
+export function outgoingLamports(
+  decoded: DecodedTransaction,
+  owner: PublicKey,
+): bigint {
+  const address = owner.toBase58();
+  let total = 0n;
+  for (const ix of decoded.instructions) {
+    if (
+      (ix.kind === "sol_transfer" || ix.kind === "create_account") &&
+      ix.from === address
+    ) {
+      total += ix.lamports;
+    }
+  }
+  return total;
+}
+
+export type TransactionSummary = {
+  feePayer: string | null;
+  instructions: Record<string, string | undefined>[];
+};
+
+/** JSON-safe copy of a decoded transaction (numbers as decimal strings). */
+export function summarizeTransaction(
+  decoded: DecodedTransaction,
+): TransactionSummary {
+  return {
+    feePayer: decoded.feePayer,
+    instructions: decoded.instructions.map((ix) =>
+      Object.fromEntries(
+        Object.entries(ix).map(([key, value]) => [
+          key,
+          typeof value === "bigint" || typeof value === "number"
+            ? value.toString()
+            : value,
+        ]),
+      ),
+    ),
+  };
+}
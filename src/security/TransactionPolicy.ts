@@ -0,0 +1,319 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { DecodedTransaction } from "./TransactionDecoder.js";
+import { BudgetAsset, SOL_ASSET } from "./SpendingBudget.js";
+
+/** A daily UTC time window, e.g. { start: "09:00", end: "17:30" }. */
+export type PolicyTimeWindow = {
+  start: string;
+  end: string;
+  /** Days of week (0 = Sunday, UTC). All days when omitted. */
+  days?: number[];
+};
+
+/**
+ * Per-agent rules for what the agent may sign. Every field is optional;
+ * an empty policy allows everything the global allowlist allows.
+ */
+export type TransactionPolicy = {
+  /** Wallet addresses (or token accounts) the agent may send to. */
+  allowedDestinations?: string[];
+  /** SPL mints the agent may transfer or mint. */
+  allowedMints?: string[];
+  /** Max amount per instruction in UI units, keyed by "SOL" or mint. */
+  maxAmountPerInstruction?: Record<BudgetAsset, number>;
+  /**
+   * Programs the agent may invoke, on top of PROGRAM_ALLOWLIST. The compute
+   * budget program the wallet adds is always allowed.
+   */
+  allowedPrograms?: string[];
+  /** UTC windows in which the agent may sign. */
+  timeWindows?: PolicyTimeWindow[];
+};
+
+export type PolicyRule =
+  "destination" | "mint" | "max_amount" | "program" | "time_window";
+
+export type PolicyViolation = {
+  rule: PolicyRule;
+  message: string;
+  instructionIndex?: number;
+  programId?: string;
+  destination?: string;
+  mint?: string;
+  amount?: number;
+  limit?: number;
+};
+
+export type PolicyContext = {
+  wallet: PublicKey;
+  /** Mint and decimals for SPL instructions, by instruction index. */
+  tokenInfo: Map<number, { mint: string; decimals: number }>;
+  now?: Date;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function toMinutes(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time "${time}", expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function inWindow(window: PolicyTimeWindow, now: Date): boolean {
+  if (window.days && !window.days.includes(now.getUTCDay())) {
+    return false;
+  }
+  const minutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  // Windows that cross midnight (e.g. 22:00-06:00) wrap around
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/** Throws if the policy document is malformed. */
+export function validatePolicy(policy: TransactionPolicy): void {
+  const addressLists: [string, string[] | undefined][] = [
+    ["allowedDestinations", policy.allowedDestinations],
+    ["allowedMints", policy.allowedMints],
+    ["allowedPrograms", policy.allowedPrograms],
+  ];
+  for (const [field, list] of addressLists) {
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list)) {
+      throw new Error(`${field} must be an array of addresses`);
+    }
+    for (const address of list) {
+      new PublicKey(address);
+    }
+  }
+  for (const [asset, limit] of Object.entries(
+    policy.maxAmountPerInstruction ?? {},
+  )) {
+    if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0) {
+      throw new Error(`Invalid maxAmountPerInstruction for ${asset}`);
+    }
+  }
+  for (const window of policy.timeWindows ?? []) {
+    toMinutes(window.start);
+    toMinutes(window.end);
+    if (window.days?.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new Error("timeWindows days must be integers 0-6");
+    }
+  }
+}
+
+/**
+ * Evaluates a decoded transaction against an agent policy and returns the
+ * first broken rule, or null when the transaction may be signed.
+ */
+export function evaluatePolicy(
+  policy: TransactionPolicy,
+  decoded: DecodedTransaction,
+  context: PolicyContext,
+): PolicyViolation | null {
+  const now = context.now ?? new Date();
+  if (
+    policy.timeWindows &&
+    policy.timeWindows.length > 0 &&
+    !policy.timeWindows.some((w) => inWindow(w, now))
+  ) {
+    return {
+      rule: "time_window",
+      message: `Signing not allowed at ${now.toISOString()} (outside policy time windows)`,
+    };
+  }
+
+  for (const [index, ix] of decoded.instructions.entries()) {
+    if (
+      policy.allowedPrograms &&
+      ix.kind !== "compute_budget" &&
+      !policy.allowedPrograms.includes(ix.programId)
+    ) {
+      return {
+        rule: "program",
+        message: `Program ${ix.programId} not allowed by agent policy`,
+        instructionIndex: index,
+        programId: ix.programId,
+      };
+    }
+
+    if (ix.kind === "sol_transfer") {
+      const violation =
+        checkDestination(policy, ix.to, index, context.wallet) ??
+        checkAmount(
+          policy,
+          SOL_ASSET,
+          Number(ix.lamports) / LAMPORTS_PER_SOL,
+          index,
+        );
+      if (violation) {
+        return violation;
+      }
+    }
+
+    if (ix.kind === "swap") {
+      const mint = [ix.sourceMint, ix.destinationMint].find(
+        (m) => policy.allowedMints && !policy.allowedMints.includes(m),
+      );
+      if (mint) {
+        return {
+          rule: "mint",
+          message: `Mint ${mint} not allowed by agent policy`,
+          instructionIndex: index,
+          mint,
+        };
+      }
+      const info = context.tokenInfo.get(index);
+      const violation = info
+        ? checkAmount(
+            policy,
+            ix.sourceMint,
+            Number(ix.amountIn) / 10 ** info.decimals,
+            index,
+          )
+        : null;
+      if (violation) {
+        return violation;
+      }
+    }
+
+    if (ix.kind === "close_account") {
+      const violation = checkDestination(
+        policy,
+        ix.destination,
+        index,
+        context.wallet,
+      );
+      if (violation) {
+        return violation;
+      }
+    }
+
+    if (ix.kind === "spl_burn") {
+      if (policy.allowedMints && !policy.allowedMints.includes(ix.mint)) {
+        return {
+          rule: "mint",
+          message: `Mint ${ix.mint} not allowed by agent policy`,
+          instructionIndex: index,
+          mint: ix.mint,
+        };
+      }
+      const info = context.tokenInfo.get(index);
+      const violation = info
+        ? checkAmount(
+            policy,
+            ix.mint,
+            Number(ix.amount) / 10 ** info.decimals,
+            index,
+          )
+        : null;
+      if (violation) {
+        return violation;
+      }
+    }
+
+    if (ix.kind === "spl_transfer" || ix.kind === "spl_mint") {
+      const info = context.tokenInfo.get(index);
+      const mint = info?.mint ?? (ix.kind === "spl_mint" ? ix.mint : undefined);
+      if (
+        policy.allowedMints &&
+        (!mint || !policy.allowedMints.includes(mint))
+      ) {
+        return {
+          rule: "mint",
+          message: `Mint ${mint ?? "unknown"} not allowed by agent policy`,
+          instructionIndex: index,
+          mint,
+        };
+      }
+      const violation =
+        checkDestination(
+          policy,
+          ix.destination,
+          index,
+          context.wallet,
+          mint,
+          ix.programId,
+        ) ??
+        (mint && info
+          ? checkAmount(
+              policy,
+              mint,
+              Number(ix.amount) / 10 ** info.decimals,
+              index,
+            )
+          : null);
+      if (violation) {
+        return violation;
+      }
+    }
+  }
+  return null;
+}
+
+function checkDestination(
+  policy: TransactionPolicy,
+  destination: string,
+  index: number,
+  wallet: PublicKey,
+  mint?: string,
+  tokenProgram?: string,
+): PolicyViolation | null {
+  if (!policy.allowedDestinations) {
+    return null;
+  }
+  // The agent's own wallet is always a valid destination
+  const candidates = [...policy.allowedDestinations, wallet.toBase58()];
+  const allowed = candidates.some((address) => {
+    if (address === destination) {
+      return true;
+    }
+    // Token instructions target token accounts: match the owner's ATA
+    return (
+      mint !== undefined &&
+      getAssociatedTokenAddressSync(
+        new PublicKey(mint),
+        new PublicKey(address),
+        true,
+        tokenProgram !== undefined ? new PublicKey(tokenProgram) : undefined,
+      ).toBase58() === destination
+    );
+  });
+  if (allowed) {
+    return null;
+  }
+  return {
+    rule: "destination",
+    message: `Destination ${destination} not allowed by agent policy`,
+    instructionIndex: index,
+    destination,
+    mint,
+  };
+}
+
+function checkAmount(
+  policy: TransactionPolicy,
+  asset: BudgetAsset,
+  amount: number,
+  index: number,
+): PolicyViolation | null {
+  const limit = policy.maxAmountPerInstruction?.[asset];
+  if (limit === undefined || amount <= limit) {
+    return null;
+  }
+  return {
+    rule: "max_amount",
+    message: `Instruction moves ${amount} ${asset}, policy max is ${limit}`,
+    instructionIndex: index,
+    mint: asset === SOL_ASSET ? undefined : asset,
+    amount,
+    limit,
+  };
+}
@@ -0,0 +1,47 @@
+import { BudgetAsset, BudgetWindow } from "./SpendingBudget.js";
+import { PolicyViolation } from "./TransactionPolicy.js";
+
+/**
+ * Raised before signing when a transaction would break an agent's lifetime
+ * SOL limit or one of its rolling-window budgets.
+ */
+export class SpendingLimitError extends Error {
+  constructor(
+    message: string,
+    readonly agentId: string,
+    readonly attempted: number,
+    readonly spent: number,
+    readonly limit: number,
+    readonly asset: BudgetAsset = "SOL",
+    readonly window: BudgetWindow | "lifetime" = "lifetime",
+  ) {
+    super(message);
+    this.name = "SpendingLimitError";
+  }
+}
+
+/** Raised before signing when an agent's transaction policy rejects it. */
+export class PolicyViolationError extends Error {
+  constructor(
+    readonly agentId: string,
+    readonly violation: PolicyViolation,
+  ) {
+    super(violation.message);
+    this.name = "PolicyViolationError";
+  }
+}
+
+/**
+ * Raised when a transaction was parked for operator approval and was not
+ * sent: still pending (the run moved on), rejected, expired or failed.
+ */
+export class ApprovalError extends Error {
+  constructor(
+    message: string,
+    readonly approvalId: string,
+    readonly status: "pending" | "rejected" | "expired" | "failed",
+  ) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
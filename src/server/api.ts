@@ -1,14 +1,186 @@
 import { Router, Request, Response } from "express";
 import { Keypair, PublicKey } from "@solana/web3.js";
 import { WalletService } from "../wallet/WalletService.js";
-import { TokenService } from "../tokens/TokenService.js";
+import {
+  Token2022Extensions,
+  TokenService,
+  describeAuthorityChange,
+  isIrreversibleAuthorityChange,
+} from "../tokens/TokenService.js";
+import { TokenAmountError } from "../tokens/TokenAmount.js";
 import { Orchestrator } from "../orchestrator/Orchestrator.js";
+import { EventBus } from "../orchestrator/EventBus.js";
+import { RunStatus } from "../orchestrator/AgentRun.js";
+import { eventStream } from "./events.js";
+import {
+  RUN_CONFIG_SCHEMA,
+  StrategyConfigError,
+} from "../strategies/Strategy.js";
+import { checkPriceFeedSpec } from "../prices/feeds.js";
+import {
+  ApprovalDecisionError,
+  ApprovalStatus,
+} from "../approvals/ApprovalQueue.js";
+import {
+  LEDGER_KINDS,
+  LEDGER_STATUSES,
+  LedgerFilter,
+  TransactionLedger,
+} from "../ledger/TransactionLedger.js";
+
+/** A query parameter the caller got wrong: 400. */
+class QueryError extends Error {}
+
+function ledgerFilter(query: Request["query"]): LedgerFilter {
+  const { kind, status, mint, since, until, limit } = query;
+  const oneOf = <T extends string>(
+    name: string,
+    value: unknown,
+    allowed: readonly T[],
+  ): T | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!allowed.includes(value as T)) {
+      throw new QueryError(`${name} must be one of: ${allowed.join(", ")}`);
+    }
+    return value as T;
+  };
+  const date = (name: string, value: unknown): string | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+      throw new QueryError(`${name} must be a date`);
+    }
+    return value;
+  };
+  if (limit !== undefined && !/^[1-9]\d*$/.test(String(limit))) {
+    throw new QueryError("limit must be a positive integer");
+  }
+  if (mint !== undefined && typeof mint !== "string") {
+    throw new QueryError("mint must be a single address");
+  }
+  return {
+    kind: oneOf("kind", kind, LEDGER_KINDS),
+    status: oneOf("status", status, LEDGER_STATUSES),
+    mint,
+    since: date("since", since),
+    until: date("until", until),
+    limit: limit !== undefined ? Number(limit) : undefined,
+  };
+}
+
+/** Bad ledger filters are the caller's mistake: 400. */
+function sendLedgerError(res: Response, error: unknown): void {
+  if (error instanceof QueryError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: String(error) });
+}
+
+/**
+ * Token-2022 extensions from a create-mint body: `true` for none, or
+ * `{ transferFeeBps, maxFee, metadataPointer (true or an address),
+ * interestRateBps }`.
+ */
+function parseToken2022(body: unknown): Token2022Extensions {
+  const options = (typeof body === "object" && body ? body : {}) as Record<
+    string,
+    unknown
+  >;
+  const { transferFeeBps, maxFee, metadataPointer, interestRateBps } = options;
+  return {
+    transferFee:
+      transferFeeBps !== undefined
+        ? {
+            basisPoints: Number(transferFeeBps),
+            maxFee:
+              maxFee !== undefined
+                ? BigInt(maxFee as string | number)
+                : undefined,
+          }
+        : undefined,
+    metadataPointer: metadataPointer
+      ? {
+          metadataAddress:
+            typeof metadataPointer === "string"
+              ? new PublicKey(metadataPointer)
+              : undefined,
+        }
+      : undefined,
+    interestRateBps:
+      interestRateBps !== undefined ? Number(interestRateBps) : undefined,
+  };
+}
+
+/** Amounts the mint cannot represent are the caller's mistake: 400. */
+function sendTokenError(res: Response, error: unknown): void {
+  if (error instanceof TokenAmountError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: String(error) });
+}
+
+/** Rejects a `priceFeed` option an API caller may not name. */
+function checkFeedOption(strategy: string, config: unknown): void {
+  const feed = (config as Record<string, unknown> | undefined)?.priceFeed;
+  if (typeof feed !== "string") {
+    return;
+  }
+  try {
+    checkPriceFeedSpec(feed);
+  } catch (error) {
+    throw new StrategyConfigError(
+      `${strategy}: ${error instanceof Error ? error.message : String(error)}`,
+      strategy,
+      "priceFeed",
+    );
+  }
+}
+
+/** 404 for an unknown approval, 409 for one that was already decided. */
+function sendApprovalError(res: Response, error: unknown): void {
+  if (error instanceof ApprovalDecisionError) {
+    res
+      .status(error.status === undefined ? 404 : 409)
+      .json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: String(error) });
+}
+
+function sendRunError(res: Response, error: unknown): void {
+  if (error instanceof StrategyConfigError) {
+    res.status(400).json({ error: error.message, field: error.field });
+    return;
+  }
+  res.status(500).json({ error: String(error) });
+}
 
 export function apiRouter(): Router {
   const router = Router();
   const walletService = new WalletService();
-  const tokenService = new TokenService(walletService.getConnection());
-  const orchestrator = new Orchestrator(walletService);
+  // One ledger for both, so their writes are serialized together
+  const ledger = new TransactionLedger();
+  const tokenService = new TokenService(walletService, { ledger });
+  const eventBus = new EventBus();
+  const orchestrator = new Orchestrator(
+    walletService,
+    eventBus,
+    undefined,
+    ledger,
+  );
+  orchestrator
+    .recoverRuns()
+    .catch((error) => console.error("Run recovery failed:", error));
+  orchestrator.startScheduler();
+
+  // ── Events ────────────────────────────────────────────────
+
+  router.get("/events", eventStream(eventBus));
 
   // ── Agents ────────────────────────────────────────────────
 
@@ -16,13 +188,11 @@ export function apiRouter(): Router {
     try {
       const agents = await orchestrator.listAgents();
 
-      // Attach live SOL balances
+      // Attach live (or paper) SOL balances
       const enriched = await Promise.all(
         agents.map(async (agent) => {
           try {
-            const balance = await tokenService.getSolBalance(
-              (await walletService.loadWallet(agent.walletName)).publicKey,
-            );
+            const balance = await orchestrator.getAgentBalance(agent.id);
             return {
               ...agent,
               balanceSol: balance,
@@ -52,9 +222,8 @@ export function apiRouter(): Router {
         return;
       }
 
-      const wallet = await walletService.loadWallet(agent.walletName);
-      const balanceSol = await tokenService.getSolBalance(wallet.publicKey);
-      const splBalances = await tokenService.getSplBalances(wallet.publicKey);
+      const balanceSol = await orchestrator.getAgentBalance(agent.id);
+      const splBalances = await orchestrator.getAgentSplBalances(agent.id);
 
       res.json({ ...agent, balanceSol, splBalances });
     } catch (error) {
@@ -64,11 +233,12 @@ export function apiRouter(): Router {
 
   router.post("/agents/spawn", async (req: Request, res: Response) => {
     try {
-      const { strategy, name, spendingLimit } = req.body ?? {};
+      const { strategy, name, spendingLimit, mode } = req.body ?? {};
       const record = await orchestrator.spawnAgent(
         strategy ?? "simple",
         name,
         spendingLimit,
+        mode,
       );
       res.json(record);
     } catch (error) {
@@ -76,6 +246,14 @@ export function apiRouter(): Router {
     }
   });
 
+  router.post("/agents/:id/go-live", async (req: Request, res: Response) => {
+    try {
+      res.json(await orchestrator.goLive(req.params.id as string));
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
   router.post("/agents/promote", async (req: Request, res: Response) => {
     try {
       const { walletName, strategy, spendingLimit } = req.body ?? {};
@@ -133,43 +311,203 @@ export function apiRouter(): Router {
     }
   });
 
+  router.get(
+    "/agents/:id/transactions",
+    async (req: Request, res: Response) => {
+      try {
+        const transactions = await orchestrator.listTransactions({
+          ...ledgerFilter(req.query),
+          agentId: req.params.id as string,
+        });
+        res.json(transactions);
+      } catch (error) {
+        sendLedgerError(res, error);
+      }
+    },
+  );
+
+  router.get("/agents/:id/limits", async (req: Request, res: Response) => {
+    try {
+      const report = await orchestrator.getBudgetReport(
+        req.params.id as string,
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.put("/agents/:id/limits", async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const { spendingLimit, budget } = req.body ?? {};
+      if (spendingLimit === undefined && !budget) {
+        res
+          .status(400)
+          .json({ error: "spendingLimit (number) or budget is required" });
+        return;
+      }
+      if (budget && typeof budget.asset !== "string") {
+        res.status(400).json({ error: "budget.asset is required" });
+        return;
+      }
+      if (spendingLimit !== undefined) {
+        await orchestrator.setSpendingLimit(id, spendingLimit);
+      }
+      if (budget) {
+        await orchestrator.setBudget(id, {
+          asset: budget.asset,
+          perTransaction: budget.perTransaction,
+          perHour: budget.perHour,
+          perDay: budget.perDay,
+          perWeek: budget.perWeek,
+        });
+      }
+      res.json(await orchestrator.getBudgetReport(id));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.delete(
+    "/agents/:id/limits/:asset",
+    async (req: Request, res: Response) => {
+      try {
+        const id = req.params.id as string;
+        await orchestrator.removeBudget(id, req.params.asset as string);
+        res.json(await orchestrator.getBudgetReport(id));
+      } catch (error) {
+        res.status(500).json({ error: String(error) });
+      }
+    },
+  );
+
+  router.get("/agents/:id/policy", async (req: Request, res: Response) => {
+    try {
+      const policy = await orchestrator.getPolicy(req.params.id as string);
+      res.json(policy);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.put("/agents/:id/policy", async (req: Request, res: Response) => {
+    try {
+      const policy = req.body;
+      if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+        res.status(400).json({ error: "policy object is required" });
+        return;
+      }
+      const record = await orchestrator.setPolicy(
+        req.params.id as string,
+        policy,
+      );
+      res.json(record.policy);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  router.get("/strategies", async (_req: Request, res: Response) => {
+    try {
+      const strategies = await orchestrator.listStrategies();
+      res.json(
+        strategies.map(({ name, aliases, description, configSchema }) => ({
+          name,
+          aliases: aliases ?? [],
+          description,
+          configSchema: { ...RUN_CONFIG_SCHEMA, ...configSchema },
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.post(
+    "/agents/:id/strategies/:name/run",
+    async (req: Request, res: Response) => {
+      try {
+        const id = req.params.id as string;
+        checkFeedOption(req.params.name as string, req.body);
+        const { run } = await orchestrator.startRun(
+          id,
+          req.params.name as string,
+          req.body ?? {},
+        );
+        res.status(202).json({
+          id,
+          strategy: run.strategy,
+          runId: run.id,
+          status: run.status,
+        });
+      } catch (error) {
+        sendRunError(res, error);
+      }
+    },
+  );
+
   router.post("/agents/:id/run", async (req: Request, res: Response) => {
     try {
       const id = req.params.id as string;
       const { to, sol, iterations, interval, hold } = req.body ?? {};
-      const destination = to ? new PublicKey(to) : Keypair.generate().publicKey;
-      const signatures = await orchestrator.runAgentLoop(id, {
-        to: destination,
+      const { run } = await orchestrator.startRun(id, "simple_transfer", {
+        to: to ?? Keypair.generate().publicKey.toBase58(),
         sol,
-        iterations: iterations ?? 5,
-        intervalMs: interval ?? 3000,
-        holdProbability: hold ?? 0.6,
+        iterations,
+        intervalMs: interval,
+        holdProbability: hold,
       });
-      res.json({ id, signatures });
+      res.status(202).json({ id, runId: run.id, status: run.status });
     } catch (error) {
-      res.status(500).json({ error: String(error) });
+      sendRunError(res, error);
     }
   });
 
   router.post("/agents/:id/trade", async (req: Request, res: Response) => {
     try {
       const id = req.params.id as string;
-      const { mint, buy, sell, amount, iterations, interval } = req.body ?? {};
+      const {
+        mint,
+        buy,
+        sell,
+        amount,
+        iterations,
+        interval,
+        feed,
+        maxAge,
+        maxConfidence,
+        pool,
+        quoteMint,
+        slippageBps,
+      } = req.body ?? {};
       if (!mint) {
         res.status(400).json({ error: "mint is required" });
         return;
       }
-      const signatures = await orchestrator.runTradingAgent(id, {
-        targetMint: new PublicKey(mint),
-        buyThreshold: buy ?? 0.95,
-        sellThreshold: sell ?? 1.05,
-        tradeAmount: amount ?? 1.0,
-        iterations: iterations ?? 5,
-        intervalMs: interval ?? 3000,
+      checkFeedOption("trading", { priceFeed: feed });
+      const { run } = await orchestrator.startRun(id, "trading", {
+        targetMint: mint,
+        buyThreshold: buy,
+        sellThreshold: sell,
+        tradeAmount: amount,
+        iterations,
+        intervalMs: interval,
+        priceFeed: feed,
+        maxPriceAgeMs: maxAge,
+        maxConfidence,
+        pool,
+        quoteMint,
+        slippageBps,
+      });
+      res.status(202).json({
+        id,
+        strategy: "trading",
+        runId: run.id,
+        status: run.status,
       });
-      res.json({ id, strategy: "trading", signatures });
     } catch (error) {
-      res.status(500).json({ error: String(error) });
+      sendRunError(res, error);
     }
   });
 
@@ -181,20 +519,238 @@ export function apiRouter(): Router {
         res.status(400).json({ error: "mint is required" });
         return;
       }
-      const signatures = await orchestrator.runLiquidityAgent(id, {
-        poolMint: new PublicKey(mint),
-        minBalance: min ?? 10,
-        maxBalance: max ?? 100,
-        rebalanceAmount: amount ?? 5,
-        iterations: iterations ?? 5,
-        intervalMs: interval ?? 3000,
+      const { run } = await orchestrator.startRun(id, "liquidity", {
+        poolMint: mint,
+        minBalance: min,
+        maxBalance: max,
+        rebalanceAmount: amount,
+        iterations,
+        intervalMs: interval,
+      });
+      res.status(202).json({
+        id,
+        strategy: "liquidity",
+        runId: run.id,
+        status: run.status,
+      });
+    } catch (error) {
+      sendRunError(res, error);
+    }
+  });
+
+  router.put("/agents/:id/approval", async (req: Request, res: Response) => {
+    try {
+      const { thresholds, newDestinations, onPending } = req.body ?? {};
+      const record = await orchestrator.setApprovalConfig(
+        req.params.id as string,
+        { thresholds, newDestinations, onPending },
+      );
+      res.json(record.approval);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  router.get("/agents/:id/runs", async (req: Request, res: Response) => {
+    try {
+      res.json(
+        await orchestrator.listRuns({ agentId: req.params.id as string }),
+      );
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.put("/agents/:id/recovery", async (req: Request, res: Response) => {
+    try {
+      const record = await orchestrator.setRecoveryPolicy(
+        req.params.id as string,
+        req.body?.policy,
+      );
+      res.json({ id: record.id, recovery: record.recovery });
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  router.put("/agents/:id/fees", async (req: Request, res: Response) => {
+    try {
+      const { percentile, maxLamports } = req.body ?? {};
+      const record = await orchestrator.setFeePolicy(req.params.id as string, {
+        percentile,
+        maxLamports,
       });
-      res.json({ id, strategy: "liquidity", signatures });
+      res.json({ id: record.id, fees: record.fees });
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  // ── Runs ──────────────────────────────────────────────────
+
+  router.get("/runs", async (req: Request, res: Response) => {
+    try {
+      const { status, agentId } = req.query;
+      const runs = await orchestrator.listRuns({
+        status: status as RunStatus | undefined,
+        agentId: agentId as string | undefined,
+      });
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.get("/runs/:runId", async (req: Request, res: Response) => {
+    try {
+      const run = await orchestrator.getRun(req.params.runId as string);
+      if (!run) {
+        res.status(404).json({ error: "Run not found" });
+        return;
+      }
+      res.json(run);
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
   });
 
+  router.post("/runs/:runId/cancel", async (req: Request, res: Response) => {
+    try {
+      const run = await orchestrator.cancelRun(req.params.runId as string);
+      res.json(run);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  router.post("/runs/:runId/resume", async (req: Request, res: Response) => {
+    try {
+      const { run } = await orchestrator.resumeRun(req.params.runId as string);
+      res.status(202).json(run);
+    } catch (error) {
+      sendRunError(res, error);
+    }
+  });
+
+  // ── Schedules ─────────────────────────────────────────────
+
+  router.get("/schedules", async (req: Request, res: Response) => {
+    try {
+      const schedules = await orchestrator.listSchedules(
+        req.query.agentId as string | undefined,
+      );
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.post("/schedules", async (req: Request, res: Response) => {
+    try {
+      const { agentId, strategy, config, cron, intervalMs, enabled } =
+        req.body ?? {};
+      checkFeedOption(strategy, config);
+      const schedule = await orchestrator.addSchedule({
+        agentId,
+        strategy,
+        config: config ?? {},
+        cron,
+        intervalMs,
+        enabled,
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  router.delete("/schedules/:id", async (req: Request, res: Response) => {
+    try {
+      await orchestrator.removeSchedule(req.params.id as string);
+      res.json({ id: req.params.id, removed: true });
+    } catch (error) {
+      res.status(404).json({ error: String(error) });
+    }
+  });
+
+  router.post("/schedules/:id/start", async (req: Request, res: Response) => {
+    try {
+      const schedule = await orchestrator.setScheduleEnabled(
+        req.params.id as string,
+        true,
+      );
+      res.json(schedule);
+    } catch (error) {
+      res.status(404).json({ error: String(error) });
+    }
+  });
+
+  router.post("/schedules/:id/stop", async (req: Request, res: Response) => {
+    try {
+      const schedule = await orchestrator.setScheduleEnabled(
+        req.params.id as string,
+        false,
+      );
+      res.json(schedule);
+    } catch (error) {
+      res.status(404).json({ error: String(error) });
+    }
+  });
+
+  // ── Approvals ─────────────────────────────────────────────
+
+  router.get("/approvals", async (req: Request, res: Response) => {
+    try {
+      const { status, agentId } = req.query;
+      const approvals = await orchestrator.listApprovals({
+        status: status as ApprovalStatus | undefined,
+        agentId: agentId as string | undefined,
+      });
+      res.json(approvals);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.get("/approvals/:id", async (req: Request, res: Response) => {
+    try {
+      const approval = await orchestrator.getApproval(req.params.id as string);
+      if (!approval) {
+        res.status(404).json({ error: "Approval not found" });
+        return;
+      }
+      res.json(approval);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.post("/approvals/:id/approve", async (req: Request, res: Response) => {
+    try {
+      const { note } = req.body ?? {};
+      const approval = await orchestrator.approveTransaction(
+        req.params.id as string,
+        note,
+      );
+      res.json(approval);
+    } catch (error) {
+      sendApprovalError(res, error);
+    }
+  });
+
+  router.post("/approvals/:id/reject", async (req: Request, res: Response) => {
+    try {
+      const { note } = req.body ?? {};
+      const approval = await orchestrator.rejectTransaction(
+        req.params.id as string,
+        note,
+      );
+      res.json(approval);
+    } catch (error) {
+      sendApprovalError(res, error);
+    }
+  });
+
   // ── Wallets ───────────────────────────────────────────────
 
   router.get("/wallets", async (_req: Request, res: Response) => {
@@ -259,6 +815,24 @@ export function apiRouter(): Router {
     },
   );
 
+  router.get(
+    "/wallets/:name/transactions",
+    async (req: Request, res: Response) => {
+      try {
+        const wallet = await walletService.loadWallet(
+          req.params.name as string,
+        );
+        const transactions = await orchestrator.listTransactions({
+          ...ledgerFilter(req.query),
+          wallet: wallet.publicKey.toBase58(),
+        });
+        res.json(transactions);
+      } catch (error) {
+        sendLedgerError(res, error);
+      }
+    },
+  );
+
   router.post("/wallets/:name/airdrop", async (req: Request, res: Response) => {
     try {
       const name = req.params.name as string;
@@ -282,14 +856,51 @@ export function apiRouter(): Router {
 
   router.post("/tokens/create-mint", async (req: Request, res: Response) => {
     try {
-      const { walletName, decimals } = req.body ?? {};
+      const {
+        walletName,
+        decimals = 6,
+        mintAuthority,
+        freezeAuthority,
+        token2022,
+        name,
+        symbol,
+        uri,
+      } = req.body ?? {};
       if (!walletName) {
         res.status(400).json({ error: "walletName is required" });
         return;
       }
+      if (!Number.isInteger(decimals) || decimals < 0 || decimals > 9) {
+        res
+          .status(400)
+          .json({ error: "decimals must be an integer from 0 to 9" });
+        return;
+      }
+      if (Boolean(name) !== Boolean(symbol)) {
+        res
+          .status(400)
+          .json({ error: "name and symbol are required together" });
+        return;
+      }
+      const metadata = name
+        ? { name: String(name), symbol: String(symbol), uri: String(uri ?? "") }
+        : undefined;
       const wallet = await walletService.loadWallet(walletName);
-      const mint = await tokenService.createSplMint(wallet, decimals ?? 6);
-      res.json({ walletName, mint: mint.toBase58(), decimals: decimals ?? 6 });
+      const mint = await tokenService.createSplMint(wallet, decimals, {
+        mintAuthority: mintAuthority ? new PublicKey(mintAuthority) : undefined,
+        freezeAuthority: freezeAuthority
+          ? new PublicKey(freezeAuthority)
+          : undefined,
+        token2022: token2022 ? parseToken2022(token2022) : undefined,
+        metadata,
+      });
+      res.json({
+        walletName,
+        mint: mint.toBase58(),
+        decimals,
+        program: token2022 || metadata ? "token-2022" : "spl-token",
+        ...(metadata && { metadata }),
+      });
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
@@ -305,17 +916,17 @@ export function apiRouter(): Router {
         return;
       }
       const wallet = await walletService.loadWallet(walletName);
-      const d = decimals ?? 6;
-      const baseUnits = BigInt(Math.round(amount * 10 ** d));
+      const mintKey = new PublicKey(mint);
+      const parsed = await tokenService.parseAmount(mintKey, amount, decimals);
       const signature = await tokenService.mintSpl(
         wallet,
-        new PublicKey(mint),
+        mintKey,
         wallet.publicKey,
-        baseUnits,
+        parsed,
       );
-      res.json({ walletName, mint, amount, signature });
+      res.json({ walletName, mint, amount: parsed, signature });
     } catch (error) {
-      res.status(500).json({ error: String(error) });
+      sendTokenError(res, error);
     }
   });
 
@@ -329,16 +940,114 @@ export function apiRouter(): Router {
         return;
       }
       const wallet = await walletService.loadWallet(fromWallet);
-      const d = decimals ?? 6;
-      const baseUnits = BigInt(Math.round(amount * 10 ** d));
+      const mintKey = new PublicKey(mint);
+      const parsed = await tokenService.parseAmount(mintKey, amount, decimals);
       const signature = await tokenService.transferSpl(
         wallet,
-        new PublicKey(mint),
+        mintKey,
         wallet,
         new PublicKey(to),
-        baseUnits,
+        parsed,
+      );
+      res.json({ fromWallet, to, mint, amount: parsed, signature });
+    } catch (error) {
+      sendTokenError(res, error);
+    }
+  });
+
+  router.get("/tokens/:mint", async (req: Request, res: Response) => {
+    try {
+      const info = await tokenService.getMintInfo(
+        new PublicKey(req.params.mint as string),
+      );
+      res.json(info);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  // Revoking or handing over an authority cannot be undone by this wallet, so
+  // it needs `confirm: true`; without it the response explains the effect.
+  router.post("/tokens/authority", async (req: Request, res: Response) => {
+    try {
+      const { walletName, mint, type, newAuthority, confirm } = req.body ?? {};
+      if (!walletName || !mint || (type !== "mint" && type !== "freeze")) {
+        res.status(400).json({
+          error: 'walletName, mint and type ("mint" or "freeze") are required',
+        });
+        return;
+      }
+      if (newAuthority === undefined) {
+        res.status(400).json({
+          error: "newAuthority (address, or null to revoke) is required",
+        });
+        return;
+      }
+      const wallet = await walletService.loadWallet(walletName);
+      const mintKey = new PublicKey(mint);
+      const authority = newAuthority ? new PublicKey(newAuthority) : null;
+      if (
+        isIrreversibleAuthorityChange(wallet.publicKey, authority) &&
+        confirm !== true
+      ) {
+        res.status(409).json({
+          error: "Confirmation required",
+          confirmationRequired: true,
+          warning: describeAuthorityChange(type, mintKey, authority),
+        });
+        return;
+      }
+      const signature = await tokenService.setMintAuthority(
+        wallet,
+        mintKey,
+        type,
+        authority,
+      );
+      res.json({
+        walletName,
+        mint,
+        type,
+        authority: authority?.toBase58() ?? null,
+        signature,
+      });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  router.post("/tokens/burn", async (req: Request, res: Response) => {
+    try {
+      const { walletName, mint, amount, decimals } = req.body ?? {};
+      if (!walletName || !mint || amount == null) {
+        res
+          .status(400)
+          .json({ error: "walletName, mint, and amount are required" });
+        return;
+      }
+      const wallet = await walletService.loadWallet(walletName);
+      const mintKey = new PublicKey(mint);
+      const parsed = await tokenService.parseAmount(mintKey, amount, decimals);
+      const signature = await tokenService.burnSpl(wallet, mintKey, parsed);
+      res.json({ walletName, mint, amount: parsed, signature });
+    } catch (error) {
+      sendTokenError(res, error);
+    }
+  });
+
+  router.post("/tokens/close", async (req: Request, res: Response) => {
+    try {
+      const { walletName, mint, destination } = req.body ?? {};
+      if (!walletName || !mint) {
+        res.status(400).json({ error: "walletName and mint are required" });
+        return;
+      }
+      const wallet = await walletService.loadWallet(walletName);
+      const signature = await tokenService.closeTokenAccount(
+        wallet,
+        new PublicKey(mint),
+        destination ? new PublicKey(destination) : undefined,
       );
-      res.json({ fromWallet, to, mint, amount, signature });
+      res.json({ walletName, mint, signature });
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
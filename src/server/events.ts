@@ -0,0 +1,47 @@
+import { Request, Response } from "express";
+import { BusEvent, EventBus } from "../orchestrator/EventBus.js";
+
+const KEEP_ALIVE_MS = 15000;
+
+/**
+ * Server-Sent Events handler that streams every EventBus event with its bus
+ * sequence number. `?agentId=` limits the stream to events about one agent.
+ * Reconnecting clients (`Last-Event-ID`) or `?since=<seq>` first receive the
+ * buffered events they missed.
+ */
+export function eventStream(eventBus: EventBus) {
+  return (req: Request, res: Response): void => {
+    const agentId = req.query.agentId as string | undefined;
+    const since = Number(req.get("Last-Event-ID") ?? req.query.since ?? NaN);
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    res.write(`retry: 3000\n\n`);
+
+    const send = ({ seq, event, payload }: BusEvent): void => {
+      if (agentId && payload.id !== agentId) {
+        return;
+      }
+      res.write(
+        `id: ${seq}\nevent: ${event}\ndata: ${JSON.stringify({ seq, event, payload })}\n\n`,
+      );
+    };
+    if (Number.isInteger(since)) {
+      eventBus.replay(since).forEach(send);
+    }
+    const unsubscribe = eventBus.on("*", send);
+
+    const keepAlive = setInterval(
+      () => res.write(`: keep-alive\n\n`),
+      KEEP_ALIVE_MS,
+    );
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  };
+}
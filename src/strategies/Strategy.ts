@@ -0,0 +1,143 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { TokenOperations } from "../tokens/TokenService.js";
+import { AgentDecision } from "../agents/Agent.js";
+import { PriceFeed } from "../prices/PriceFeed.js";
+import { Clock } from "../utils/clock.js";
+
+/** One option a strategy accepts. "address" values are base58 strings. */
+export type ConfigField = {
+  type: "number" | "string" | "boolean" | "address";
+  required?: boolean;
+  default?: number | string | boolean;
+  min?: number;
+  max?: number;
+  description?: string;
+};
+
+export type StrategyConfigSchema = Record<string, ConfigField>;
+
+/** Resolved, JSON-safe strategy options (what a run stores as `config`). */
+export type StrategyConfig = Record<string, unknown>;
+
+/** What a strategy gets to work with for one run. */
+export type StrategyContext = {
+  agentId: string;
+  wallet: Keypair;
+  tokenService: TokenOperations;
+  /** Overrides the price feed chosen in the config, as backtests do. */
+  priceFeed?: PriceFeed;
+  /** The run's clock; defaults to the system clock. */
+  clock?: Clock;
+};
+
+/**
+ * What one step decided and did. `halt` ends the run after this step,
+ * e.g. when a spending limit has been reached.
+ */
+export type StrategyDecision = Omit<
+  AgentDecision,
+  "iteration" | "timestamp"
+> & {
+  halt?: boolean;
+};
+
+/** A running strategy instance, driven one iteration at a time. */
+export interface Strategy {
+  step(iteration: number): Promise<StrategyDecision>;
+  /** Called when the run is stopped between steps. */
+  stop?(): void;
+}
+
+/** A named strategy as registered in the StrategyRegistry. */
+export type StrategyDefinition = {
+  name: string;
+  /** Other names that resolve to this strategy (e.g. older agent records). */
+  aliases?: string[];
+  description: string;
+  configSchema: StrategyConfigSchema;
+  /** Config key holding the mint the strategy trades, priced in backtests. */
+  mintField?: string;
+  create(context: StrategyContext, config: StrategyConfig): Strategy;
+};
+
+export class StrategyConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly strategy: string,
+    public readonly field?: string,
+  ) {
+    super(message);
+    this.name = "StrategyConfigError";
+  }
+}
+
+/** Options every strategy run accepts, handled by the StrategyRunner. */
+export const RUN_CONFIG_SCHEMA: StrategyConfigSchema = {
+  iterations: {
+    type: "number",
+    default: 5,
+    min: 1,
+    description: "Number of iterations",
+  },
+  intervalMs: {
+    type: "number",
+    default: 3000,
+    min: 0,
+    description: "Pause between iterations in ms",
+  },
+};
+
+/**
+ * Checks options against a strategy's schema (plus the run options) and
+ * returns them with defaults filled in. Unknown keys are rejected.
+ */
+export function resolveConfig(
+  definition: StrategyDefinition,
+  options: Record<string, unknown>,
+): StrategyConfig {
+  const schema = { ...RUN_CONFIG_SCHEMA, ...definition.configSchema };
+  const fail = (message: string, field?: string): never => {
+    throw new StrategyConfigError(
+      `${definition.name}: ${message}`,
+      definition.name,
+      field,
+    );
+  };
+  for (const key of Object.keys(options)) {
+    if (!(key in schema)) {
+      fail(`unknown option "${key}"`, key);
+    }
+  }
+  const config: StrategyConfig = {};
+  for (const [key, field] of Object.entries(schema)) {
+    const value = options[key] ?? field.default;
+    if (value === undefined) {
+      if (field.required) {
+        fail(`option "${key}" is required`, key);
+      }
+      continue;
+    }
+    if (field.type === "address") {
+      try {
+        new PublicKey(value as string);
+      } catch {
+        fail(`option "${key}" must be a base58 address`, key);
+      }
+    } else if (typeof value !== field.type) {
+      fail(`option "${key}" must be a ${field.type}`, key);
+    }
+    if (
+      typeof value === "number" &&
+      (!Number.isFinite(value) ||
+        (field.min !== undefined && value < field.min) ||
+        (field.max !== undefined && value > field.max))
+    ) {
+      fail(
+        `option "${key}" must be between ${field.min ?? "-∞"} and ${field.max ?? "∞"}`,
+        key,
+      );
+    }
+    config[key] = value;
+  }
+  return config;
+}
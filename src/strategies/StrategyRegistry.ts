@@ -0,0 +1,68 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { StrategyDefinition } from "./Strategy.js";
+
+/**
+ * Strategies by name. Built-ins are registered up front; external modules
+ * can add more with `load()`. A module exports a StrategyDefinition (or an
+ * array of them) as its default export or as `strategies`.
+ */
+export class StrategyRegistry {
+  private readonly definitions = new Map<string, StrategyDefinition>();
+  private readonly aliases = new Map<string, string>();
+
+  constructor(definitions: StrategyDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  register(definition: StrategyDefinition): void {
+    if (!definition.name || typeof definition.create !== "function") {
+      throw new Error("A strategy needs a name and a create() function");
+    }
+    for (const name of [definition.name, ...(definition.aliases ?? [])]) {
+      if (this.definitions.has(name) || this.aliases.has(name)) {
+        throw new Error(`Strategy already registered: ${name}`);
+      }
+    }
+    this.definitions.set(definition.name, definition);
+    for (const alias of definition.aliases ?? []) {
+      this.aliases.set(alias, definition.name);
+    }
+  }
+
+  /** Looks up a strategy by name or alias. */
+  get(name: string): StrategyDefinition | undefined {
+    return this.definitions.get(this.aliases.get(name) ?? name);
+  }
+
+  /** Like get(), but throws for unknown names. */
+  resolve(name: string): StrategyDefinition {
+    const definition = this.get(name);
+    if (!definition) {
+      throw new Error(
+        `Unknown strategy: ${name} (registered: ${Array.from(this.definitions.keys()).join(", ")})`,
+      );
+    }
+    return definition;
+  }
+
+  list(): StrategyDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /** Imports a module (path relative to the working directory) and registers its strategies. */
+  async load(modulePath: string): Promise<StrategyDefinition[]> {
+    const url = pathToFileURL(path.resolve(modulePath)).href;
+    const mod = (await import(url)) as {
+      default?: StrategyDefinition | StrategyDefinition[];
+      strategies?: StrategyDefinition[];
+    };
+    const exported = mod.strategies ?? mod.default;
+    if (!exported) {
+      throw new Error(`${modulePath} does not export any strategies`);
+    }
+    const definitions = Array.isArray(exported) ? exported : [exported];
+    definitions.forEach((definition) => this.register(definition));
+    return definitions;
+  }
+}
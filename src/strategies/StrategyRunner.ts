@@ -0,0 +1,55 @@
+import { Strategy } from "./Strategy.js";
+import { DecisionListener } from "../agents/Agent.js";
+import { Clock, systemClock } from "../utils/clock.js";
+
+/**
+ * Drives a strategy: one step per iteration with a pause in between, until
+ * the iterations run out, a step halts, or stop() is called. A step that
+ * throws fails the run.
+ */
+export class StrategyRunner {
+  private running = false;
+
+  constructor(
+    private readonly strategy: Strategy,
+    private readonly onDecision?: DecisionListener,
+    private readonly clock: Clock = systemClock,
+  ) {}
+
+  async run(options: {
+    iterations: number;
+    intervalMs: number;
+  }): Promise<string[]> {
+    this.running = true;
+    const signatures: string[] = [];
+
+    for (let i = 0; i < options.iterations && this.running; i += 1) {
+      const { halt, ...decision } = await this.strategy.step(i);
+      if (decision.signature) {
+        signatures.push(decision.signature);
+      }
+      this.onDecision?.({
+        iteration: i,
+        ...decision,
+        timestamp: this.clock.now().toISOString(),
+      });
+      if (halt) {
+        this.stop();
+      }
+      if (
+        options.intervalMs > 0 &&
+        i < options.iterations - 1 &&
+        this.running
+      ) {
+        await this.clock.sleep(options.intervalMs);
+      }
+    }
+
+    return signatures;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.strategy.stop?.();
+  }
+}
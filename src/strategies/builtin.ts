@@ -0,0 +1,172 @@
+import { PublicKey } from "@solana/web3.js";
+import { StrategyConfigError, StrategyDefinition } from "./Strategy.js";
+import { SWAP_SLIPPAGE_BPS } from "../config.js";
+import { createPriceFeed } from "../prices/feeds.js";
+import { TokenService } from "../tokens/TokenService.js";
+import { ConstantProductSwapAdapter } from "../swaps/ConstantProductSwap.js";
+import { SimpleAgentRunner } from "../agents/SimpleAgentRunner.js";
+import { TradingAgent, TradingConfig } from "../agents/TradingAgent.js";
+import { LiquidityAgent } from "../agents/LiquidityAgent.js";
+
+export const simpleTransferStrategy: StrategyDefinition = {
+  name: "simple_transfer",
+  aliases: ["simple"],
+  description: "Probabilistic SOL transfers to a fixed destination",
+  configSchema: {
+    to: { type: "address", required: true, description: "Destination" },
+    sol: {
+      type: "number",
+      required: true,
+      min: 0,
+      description: "SOL per transfer",
+    },
+    holdProbability: {
+      type: "number",
+      default: 0.6,
+      min: 0,
+      max: 1,
+      description: "Chance of holding each iteration",
+    },
+  },
+  create: ({ tokenService, wallet }, config) =>
+    new SimpleAgentRunner(tokenService, wallet, {
+      to: new PublicKey(config.to as string),
+      sol: config.sol as number,
+      holdProbability: config.holdProbability as number,
+    }),
+};
+
+export const tradingStrategy: StrategyDefinition = {
+  name: "trading",
+  description: "Buys below and sells above price thresholds",
+  configSchema: {
+    targetMint: { type: "address", required: true, description: "Traded mint" },
+    buyThreshold: { type: "number", default: 0.95, description: "Buy below" },
+    sellThreshold: { type: "number", default: 1.05, description: "Sell above" },
+    tradeAmount: {
+      type: "number",
+      default: 1.0,
+      min: 0,
+      description: "Tokens per trade",
+    },
+    priceFeed: {
+      type: "string",
+      default: "mock",
+      description: "mock, file:<path>, an http(s) URL or pyth:<account>",
+    },
+    maxPriceAgeMs: {
+      type: "number",
+      default: 60000,
+      min: 0,
+      description: "Hold when the price is older than this",
+    },
+    maxConfidence: {
+      type: "number",
+      default: 0.02,
+      min: 0,
+      description: "Hold when confidence exceeds this fraction of the price",
+    },
+    pool: {
+      type: "address",
+      description: "Constant-product swap pool to trade through",
+    },
+    quoteMint: {
+      type: "address",
+      description: "Mint paid and received for the target (needs pool)",
+    },
+    slippageBps: {
+      type: "number",
+      default: SWAP_SLIPPAGE_BPS,
+      min: 0,
+      max: 9999,
+      description: "Largest shortfall from the pool price, in basis points",
+    },
+  },
+  mintField: "targetMint",
+  create: ({ tokenService, wallet, priceFeed, clock }, config) => {
+    let feed = priceFeed;
+    if (!feed) {
+      try {
+        feed = createPriceFeed(config.priceFeed as string);
+      } catch (error) {
+        throw new StrategyConfigError(
+          `trading: ${error instanceof Error ? error.message : String(error)}`,
+          "trading",
+          "priceFeed",
+        );
+      }
+    }
+    let swap: TradingConfig["swap"];
+    if (config.pool !== undefined) {
+      if (config.quoteMint === undefined) {
+        throw new StrategyConfigError(
+          'trading: option "quoteMint" is required with "pool"',
+          "trading",
+          "quoteMint",
+        );
+      }
+      if (!(tokenService instanceof TokenService)) {
+        throw new StrategyConfigError(
+          "trading: pool swaps need a live agent",
+          "trading",
+          "pool",
+        );
+      }
+      swap = {
+        adapter: new ConstantProductSwapAdapter(
+          tokenService,
+          new PublicKey(config.pool as string),
+        ),
+        quoteMint: new PublicKey(config.quoteMint as string),
+        slippageBps: config.slippageBps as number,
+      };
+    }
+    return new TradingAgent(
+      tokenService,
+      wallet,
+      {
+        targetMint: new PublicKey(config.targetMint as string),
+        buyThreshold: config.buyThreshold as number,
+        sellThreshold: config.sellThreshold as number,
+        tradeAmount: config.tradeAmount as number,
+        swap,
+      },
+      feed,
+      {
+        maxAgeMs: config.maxPriceAgeMs as number,
+        maxConfidenceRatio: config.maxConfidence as number,
+      },
+      clock,
+    );
+  },
+};
+
+export const liquidityStrategy: StrategyDefinition = {
+  name: "liquidity",
+  description: "Keeps a token balance within a target range",
+  configSchema: {
+    poolMint: { type: "address", required: true, description: "Pool mint" },
+    minBalance: { type: "number", default: 10, description: "Add below" },
+    maxBalance: { type: "number", default: 100, description: "Remove above" },
+    rebalanceAmount: {
+      type: "number",
+      default: 5,
+      min: 0,
+      description: "Tokens per rebalance",
+    },
+  },
+  mintField: "poolMint",
+  create: ({ tokenService, wallet }, config) =>
+    new LiquidityAgent(tokenService, wallet, {
+      poolMint: new PublicKey(config.poolMint as string),
+      minBalance: config.minBalance as number,
+      maxBalance: config.maxBalance as number,
+      rebalanceAmount: config.rebalanceAmount as number,
+    }),
+};
+
+export const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  simpleTransferStrategy,
+  tradingStrategy,
+  liquidityStrategy,
+];
@@ -0,0 +1,478 @@
+import {
+  AccountInfo,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+  unpackMint,
+} from "@solana/spl-token";
+import { SWAP_PROGRAM_ID } from "../config.js";
+import { TokenService } from "../tokens/TokenService.js";
+import { customErrorCode } from "../wallet/TransactionSender.js";
+import {
+  SlippageError,
+  SwapAdapter,
+  SwapFill,
+  SwapQuote,
+  SwapRequest,
+  minimumOut,
+  toUiAmount,
+} from "./SwapAdapter.js";
+
+/** SPL Token Swap instruction tag for Swap. */
+const SWAP_INSTRUCTION = 1;
+/** Token Swap `SwapError::ExceededSlippage`. */
+const EXCEEDED_SLIPPAGE = 0x10;
+const CONSTANT_PRODUCT_CURVE = 0;
+const SWAP_STATE_SIZE = 324;
+
+export type SwapPoolState = {
+  tokenProgramId: PublicKey;
+  tokenA: PublicKey;
+  tokenB: PublicKey;
+  poolMint: PublicKey;
+  mintA: PublicKey;
+  mintB: PublicKey;
+  feeAccount: PublicKey;
+  tradeFeeNumerator: bigint;
+  tradeFeeDenominator: bigint;
+  ownerTradeFeeNumerator: bigint;
+  ownerTradeFeeDenominator: bigint;
+  curveType: number;
+};
+
+export type DecodedSwap = {
+  pool: string;
+  owner: string;
+  source: string;
+  destination: string;
+  sourceMint: string;
+  destinationMint: string;
+  amountIn: bigint;
+  minimumOut: bigint;
+};
+
+/** Token accounts and mint state behind one side of a swap. */
+type Reserves = {
+  state: SwapPoolState;
+  authority: PublicKey;
+  source: { vault: PublicKey; amount: bigint; program: PublicKey };
+  destination: { vault: PublicKey; amount: bigint; program: PublicKey };
+};
+
+/**
+ * Parses an SPL Token Swap pool account (a version byte followed by SwapV1).
+ */
+export function parseSwapPool(data: Buffer): SwapPoolState {
+  if (data.length < SWAP_STATE_SIZE) {
+    throw new Error(`Swap pool account too small (${data.length} bytes)`);
+  }
+  if (data[1] !== 1) {
+    throw new Error("Swap pool is not initialized");
+  }
+  const key = (offset: number) =>
+    new PublicKey(data.subarray(offset, offset + 32));
+  return {
+    tokenProgramId: key(3),
+    tokenA: key(35),
+    tokenB: key(67),
+    poolMint: key(99),
+    mintA: key(131),
+    mintB: key(163),
+    feeAccount: key(195),
+    tradeFeeNumerator: data.readBigUInt64LE(227),
+    tradeFeeDenominator: data.readBigUInt64LE(235),
+    ownerTradeFeeNumerator: data.readBigUInt64LE(243),
+    ownerTradeFeeDenominator: data.readBigUInt64LE(251),
+    curveType: data[291],
+  };
+}
+
+/** Fee the pool charges on `amount`; never zero when the rate is not. */
+function poolFee(amount: bigint, numerator: bigint, denominator: bigint) {
+  if (numerator === 0n || amount === 0n) {
+    return 0n;
+  }
+  const fee = (amount * numerator) / denominator;
+  return fee === 0n ? 1n : fee;
+}
+
+/**
+ * Output of a constant-product swap, following the pool program's rounding:
+ * fees come off the input and the new output reserve is rounded up.
+ */
+export function constantProductOut(
+  amountIn: bigint,
+  sourceReserve: bigint,
+  destinationReserve: bigint,
+  state: Pick<
+    SwapPoolState,
+    | "tradeFeeNumerator"
+    | "tradeFeeDenominator"
+    | "ownerTradeFeeNumerator"
+    | "ownerTradeFeeDenominator"
+  >,
+): bigint {
+  const fees =
+    poolFee(amountIn, state.tradeFeeNumerator, state.tradeFeeDenominator) +
+    poolFee(
+      amountIn,
+      state.ownerTradeFeeNumerator,
+      state.ownerTradeFeeDenominator,
+    );
+  const netIn = amountIn - fees;
+  if (netIn <= 0n) {
+    return 0n;
+  }
+  const invariant = sourceReserve * destinationReserve;
+  const newSource = sourceReserve + netIn;
+  // Ceiling division, as the program rounds in the pool's favour
+  const newDestination = (invariant + newSource - 1n) / newSource;
+  return destinationReserve - newDestination;
+}
+
+export function createSwapInstruction(
+  programId: PublicKey,
+  pool: PublicKey,
+  reserves: Reserves,
+  owner: PublicKey,
+  source: PublicKey,
+  destination: PublicKey,
+  sourceMint: PublicKey,
+  destinationMint: PublicKey,
+  amountIn: bigint,
+  minimumAmountOut: bigint,
+): TransactionInstruction {
+  const data = Buffer.alloc(17);
+  data.writeUInt8(SWAP_INSTRUCTION, 0);
+  data.writeBigUInt64LE(amountIn, 1);
+  data.writeBigUInt64LE(minimumAmountOut, 9);
+  const { state, authority } = reserves;
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: pool, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: false, isWritable: false },
+      { pubkey: owner, isSigner: true, isWritable: false },
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: reserves.source.vault, isSigner: false, isWritable: true },
+      { pubkey: reserves.destination.vault, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: state.poolMint, isSigner: false, isWritable: true },
+      { pubkey: state.feeAccount, isSigner: false, isWritable: true },
+      { pubkey: sourceMint, isSigner: false, isWritable: false },
+      { pubkey: destinationMint, isSigner: false, isWritable: false },
+      { pubkey: reserves.source.program, isSigner: false, isWritable: false },
+      {
+        pubkey: reserves.destination.program,
+        isSigner: false,
+        isWritable: false,
+      },
+      { pubkey: state.tokenProgramId, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
+
+/** Reads a Token Swap Swap instruction, or returns null for anything else. */
+export function decodeSwapInstruction(
+  ix: TransactionInstruction,
+): DecodedSwap | null {
+  if (ix.data.length < 17 || ix.data[0] !== SWAP_INSTRUCTION) {
+    return null;
+  }
+  if (ix.keys.length < 11) {
+    return null;
+  }
+  return {
+    pool: ix.keys[0].pubkey.toBase58(),
+    owner: ix.keys[2].pubkey.toBase58(),
+    source: ix.keys[3].pubkey.toBase58(),
+    destination: ix.keys[6].pubkey.toBase58(),
+    sourceMint: ix.keys[9].pubkey.toBase58(),
+    destinationMint: ix.keys[10].pubkey.toBase58(),
+    amountIn: ix.data.readBigUInt64LE(1),
+    minimumOut: ix.data.readBigUInt64LE(9),
+  };
+}
+
+/**
+ * Swaps through one SPL Token Swap constant-product pool. The program is
+ * deployed on devnet and mainnet and can be cloned into a local test
+ * validator. Swaps are signed and sent through the TokenService, so agent
+ * guards and the transaction ledger apply.
+ */
+export class ConstantProductSwapAdapter implements SwapAdapter {
+  private readonly programId: PublicKey;
+
+  constructor(
+    private readonly tokenService: Pick<
+      TokenService,
+      "getConnection" | "sendSwap"
+    >,
+    private readonly pool: PublicKey,
+    programId: PublicKey = new PublicKey(SWAP_PROGRAM_ID),
+  ) {
+    this.programId = programId;
+  }
+
+  async quote(request: SwapRequest): Promise<SwapQuote> {
+    const { slippageBps } = request;
+    if (!(slippageBps >= 0 && slippageBps < 10_000)) {
+      throw new Error(`Invalid slippage: ${slippageBps} bps`);
+    }
+    const reserves = await this.loadReserves(
+      request.inputMint,
+      request.outputMint,
+    );
+    const [inputDecimals, outputDecimals] = await this.getDecimals([
+      request.inputMint,
+      request.outputMint,
+    ]);
+    request.amountIn.assertDecimals(inputDecimals);
+    const amountIn = request.amountIn.raw;
+    if (amountIn <= 0n) {
+      throw new Error("Swap amount must be positive");
+    }
+    const expectedOut = constantProductOut(
+      amountIn,
+      reserves.source.amount,
+      reserves.destination.amount,
+      reserves.state,
+    );
+    if (expectedOut <= 0n) {
+      throw new Error("Swap amount too small for this pool");
+    }
+    const spotPrice =
+      toUiAmount(reserves.destination.amount, outputDecimals) /
+      toUiAmount(reserves.source.amount, inputDecimals);
+    const expectedPrice =
+      toUiAmount(expectedOut, outputDecimals) /
+      toUiAmount(amountIn, inputDecimals);
+    const shortfallBps = (1 - expectedPrice / spotPrice) * 10_000;
+    if (shortfallBps > slippageBps) {
+      throw new SlippageError(
+        `Swap would fill ${shortfallBps.toFixed(1)} bps below spot, limit is ${slippageBps} bps`,
+        slippageBps,
+      );
+    }
+    return {
+      pool: this.pool,
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      inputDecimals,
+      outputDecimals,
+      amountIn,
+      expectedOut,
+      minimumOut: minimumOut(expectedOut, slippageBps),
+      spotPrice,
+      expectedPrice,
+      slippageBps,
+    };
+  }
+
+  /**
+   * Creates the owner's output token account if needed and swaps from the
+   * owner's associated input account. The pool program rejects the swap if
+   * it would pay less than the quote's minimum.
+   */
+  async buildSwap(owner: PublicKey, quote: SwapQuote): Promise<Transaction> {
+    const reserves = await this.loadReserves(quote.inputMint, quote.outputMint);
+    const source = getAssociatedTokenAddressSync(
+      quote.inputMint,
+      owner,
+      false,
+      reserves.source.program,
+    );
+    const destination = getAssociatedTokenAddressSync(
+      quote.outputMint,
+      owner,
+      false,
+      reserves.destination.program,
+    );
+    return new Transaction({ feePayer: owner }).add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        destination,
+        owner,
+        quote.outputMint,
+        reserves.destination.program,
+      ),
+      createSwapInstruction(
+        this.programId,
+        this.pool,
+        reserves,
+        owner,
+        source,
+        destination,
+        quote.inputMint,
+        quote.outputMint,
+        quote.amountIn,
+        quote.minimumOut,
+      ),
+    );
+  }
+
+  async executeSwap(owner: Keypair, quote: SwapQuote): Promise<SwapFill> {
+    const tx = await this.buildSwap(owner.publicKey, quote);
+    let signature: string;
+    try {
+      signature = await this.tokenService.sendSwap(tx, owner, quote);
+    } catch (error) {
+      if (customErrorCode(error) === EXCEEDED_SLIPPAGE) {
+        throw new SlippageError(
+          `Pool paid less than the minimum of ${quote.minimumOut} (${quote.slippageBps} bps slippage)`,
+          quote.slippageBps,
+        );
+      }
+      throw error;
+    }
+    return this.readFill(signature, quote);
+  }
+
+  /**
+   * Measures a landed swap from the pool's vault balances, which move by
+   * exactly what the owner paid and received. Falls back to the quote when
+   * the transaction cannot be fetched.
+   */
+  private async readFill(
+    signature: string,
+    quote: SwapQuote,
+  ): Promise<SwapFill> {
+    const fill = {
+      signature,
+      pool: this.pool.toBase58(),
+      inputMint: quote.inputMint.toBase58(),
+      outputMint: quote.outputMint.toBase58(),
+    };
+    const estimate = (): SwapFill => ({
+      ...fill,
+      amountIn: quote.amountIn,
+      amountOut: quote.expectedOut,
+      price: quote.expectedPrice,
+      measured: false,
+    });
+
+    const reserves = await this.loadReserves(quote.inputMint, quote.outputMint);
+    const tx = await this.tokenService
+      .getConnection()
+      .getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      })
+      .catch(() => null);
+    const meta = tx?.meta;
+    if (!tx || !meta?.preTokenBalances || !meta.postTokenBalances) {
+      return estimate();
+    }
+    const keys = tx.transaction.message.getAccountKeys().staticAccountKeys;
+    const delta = (vault: PublicKey): bigint | undefined => {
+      const index = keys.findIndex((key) => key.equals(vault));
+      const pre = meta.preTokenBalances?.find((b) => b.accountIndex === index);
+      const post = meta.postTokenBalances?.find(
+        (b) => b.accountIndex === index,
+      );
+      if (!pre || !post) {
+        return undefined;
+      }
+      return (
+        BigInt(post.uiTokenAmount.amount) - BigInt(pre.uiTokenAmount.amount)
+      );
+    };
+    const paidIn = delta(reserves.source.vault);
+    const paidOut = delta(reserves.destination.vault);
+    if (paidIn === undefined || paidOut === undefined || paidIn <= 0n) {
+      return estimate();
+    }
+    const amountOut = -paidOut;
+    return {
+      ...fill,
+      amountIn: paidIn,
+      amountOut,
+      price:
+        toUiAmount(amountOut, quote.outputDecimals) /
+        toUiAmount(paidIn, quote.inputDecimals),
+      measured: true,
+    };
+  }
+
+  private async loadReserves(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+  ): Promise<Reserves> {
+    const connection = this.tokenService.getConnection();
+    const account = await connection.getAccountInfo(this.pool, "confirmed");
+    if (!account) {
+      throw new Error(`Swap pool not found: ${this.pool.toBase58()}`);
+    }
+    if (!account.owner.equals(this.programId)) {
+      throw new Error(
+        `Account ${this.pool.toBase58()} is not a pool of swap program ${this.programId.toBase58()}`,
+      );
+    }
+    const state = parseSwapPool(account.data);
+    if (state.curveType !== CONSTANT_PRODUCT_CURVE) {
+      throw new Error(
+        `Swap pool ${this.pool.toBase58()} is not a constant-product pool`,
+      );
+    }
+
+    let sourceVault: PublicKey;
+    let destinationVault: PublicKey;
+    if (inputMint.equals(state.mintA) && outputMint.equals(state.mintB)) {
+      [sourceVault, destinationVault] = [state.tokenA, state.tokenB];
+    } else if (
+      inputMint.equals(state.mintB) &&
+      outputMint.equals(state.mintA)
+    ) {
+      [sourceVault, destinationVault] = [state.tokenB, state.tokenA];
+    } else {
+      throw new Error(
+        `Swap pool ${this.pool.toBase58()} does not pair ${inputMint.toBase58()} with ${outputMint.toBase58()}`,
+      );
+    }
+
+    const [source, destination] = await connection.getMultipleAccountsInfo(
+      [sourceVault, destinationVault],
+      "confirmed",
+    );
+    const [authority] = PublicKey.findProgramAddressSync(
+      [this.pool.toBuffer()],
+      this.programId,
+    );
+    return {
+      state,
+      authority,
+      source: this.readVault(sourceVault, source),
+      destination: this.readVault(destinationVault, destination),
+    };
+  }
+
+  private readVault(
+    vault: PublicKey,
+    info: AccountInfo<Buffer> | null,
+  ): Reserves["source"] {
+    if (!info) {
+      throw new Error(`Swap pool vault not found: ${vault.toBase58()}`);
+    }
+    const account = unpackAccount(vault, info, info.owner);
+    return { vault, amount: account.amount, program: info.owner };
+  }
+
+  private async getDecimals(mints: PublicKey[]): Promise<number[]> {
+    const infos = await this.tokenService
+      .getConnection()
+      .getMultipleAccountsInfo(mints, "confirmed");
+    return infos.map((info, i) => {
+      if (!info) {
+        throw new Error(`Mint not found: ${mints[i].toBase58()}`);
+      }
+      return unpackMint(mints[i], info, info.owner).decimals;
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { TokenAmount } from "../tokens/TokenAmount.js";
+import { AnyTransaction } from "../wallet/types.js";
+
+export type SwapRequest = {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  /** Amount of the input mint to sell, at that mint's decimals. */
+  amountIn: TokenAmount;
+  /** Maximum shortfall from the spot price, in basis points. */
+  slippageBps: number;
+};
+
+/** A priced swap. Base-unit amounts, with UI prices for reporting. */
+export type SwapQuote = {
+  pool: PublicKey;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  inputDecimals: number;
+  outputDecimals: number;
+  amountIn: bigint;
+  expectedOut: bigint;
+  /** Passed to the pool program; the swap fails if it would pay less. */
+  minimumOut: bigint;
+  /** Output per input at the pool's current reserves, before fees. */
+  spotPrice: number;
+  /** Output per input this swap is expected to get, fees included. */
+  expectedPrice: number;
+  slippageBps: number;
+};
+
+/** What a landed swap actually moved. */
+export type SwapFill = {
+  signature: string;
+  pool: string;
+  inputMint: string;
+  outputMint: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Output per input, in UI units. */
+  price: number;
+  /** False when the amounts could not be read back and come from the quote. */
+  measured: boolean;
+};
+
+/**
+ * Quotes, builds and executes swaps against a liquidity venue. Routes that
+ * need many accounts can be built as v0 transactions with lookup tables.
+ */
+export interface SwapAdapter {
+  quote(request: SwapRequest): Promise<SwapQuote>;
+  buildSwap(owner: PublicKey, quote: SwapQuote): Promise<AnyTransaction>;
+  executeSwap(owner: Keypair, quote: SwapQuote): Promise<SwapFill>;
+}
+
+/** A swap priced or executed worse than its slippage limit allows. */
+export class SlippageError extends Error {
+  constructor(
+    message: string,
+    public readonly slippageBps: number,
+  ) {
+    super(message);
+    this.name = "SlippageError";
+  }
+}
+
+/** Least output a quote accepts: the expected amount less the slippage. */
+export function minimumOut(expectedOut: bigint, slippageBps: number): bigint {
+  return (expectedOut * BigInt(10_000 - Math.round(slippageBps))) / 10_000n;
+}
+
+export function toUiAmount(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
@@ -0,0 +1,78 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { PAPER_STORE } from "../config.js";
+import { TokenMetadata } from "./TokenMetadata.js";
+
+/** Simulated holdings of one wallet. Amounts are base units as strings. */
+export type PaperAccount = {
+  lamports: string;
+  tokens: Record<string, string>;
+};
+
+export type PaperMint = {
+  decimals: number;
+  authority: string;
+  supply: string;
+  metadata?: TokenMetadata;
+};
+
+export type PaperState = {
+  accounts: Record<string, PaperAccount>;
+  mints: Record<string, PaperMint>;
+};
+
+/**
+ * File-backed balances for paper mode, keyed by wallet address so transfers
+ * between paper agents land on both sides. Updates are serialized like the
+ * run store's writes. Pass no path to keep the state in memory only.
+ */
+export class PaperLedger {
+  private writes: Promise<unknown> = Promise.resolve();
+  private memory: PaperState = { accounts: {}, mints: {} };
+
+  constructor(private readonly storePath: string | null = PAPER_STORE) {}
+
+  async read(): Promise<PaperState> {
+    await this.writes.catch(() => undefined);
+    return this.load();
+  }
+
+  /**
+   * Applies a change to the state and saves it. If `change` throws, nothing
+   * is saved and the error is passed on.
+   */
+  update<T>(change: (state: PaperState) => T): Promise<T> {
+    const write = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        const state = await this.load();
+        const result = change(state);
+        await this.save(state);
+        return result;
+      });
+    this.writes = write;
+    return write;
+  }
+
+  private async load(): Promise<PaperState> {
+    if (!this.storePath) {
+      return structuredClone(this.memory);
+    }
+    try {
+      const raw = await fs.readFile(this.storePath, "utf8");
+      return JSON.parse(raw) as PaperState;
+    } catch {
+      return { accounts: {}, mints: {} };
+    }
+  }
+
+  private async save(state: PaperState): Promise<void> {
+    if (!this.storePath) {
+      this.memory = state;
+      return;
+    }
+    const dir = path.dirname(this.storePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(this.storePath, JSON.stringify(state, null, 2), "utf8");
+  }
+}
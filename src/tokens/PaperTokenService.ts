@@ -0,0 +1,561 @@
+import { randomUUID } from "node:crypto";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { PAPER_FEE_LAMPORTS } from "../config.js";
+import { EventBus } from "../orchestrator/EventBus.js";
+import { LedgerKind, TransactionLedger } from "../ledger/TransactionLedger.js";
+import { BudgetAsset, SOL_ASSET } from "../security/SpendingBudget.js";
+import {
+  ApprovalError,
+  PolicyViolationError,
+  SpendingLimitError,
+} from "../security/errors.js";
+import {
+  DecodedInstruction,
+  DecodedTransaction,
+} from "../security/TransactionDecoder.js";
+import {
+  AgentTokenService,
+  CreateMintOptions,
+  SplBalance,
+} from "./TokenService.js";
+import { PaperAccount, PaperLedger, PaperState } from "./PaperLedger.js";
+import { TokenAmount } from "./TokenAmount.js";
+
+/** JSON-safe description of a simulated operation, enough to replay it. */
+export type PaperOperationRecord = {
+  kind: LedgerKind;
+  wallet: string;
+  /** Base units: lamports for SOL, token base units for SPL. */
+  amount?: string;
+  mint?: string;
+  destination?: string;
+  decimals?: number;
+};
+
+/**
+ * A simulated operation as the spending checks see it: the instructions a
+ * live agent would sign for it, mint and decimals of its SPL instructions
+ * by index, and what leaves the wallet.
+ */
+export type PaperCheck = {
+  operation: PaperOperationRecord;
+  decoded: DecodedTransaction;
+  tokenInfo: Map<number, { mint: string; decimals: number }>;
+  outflows: Map<BudgetAsset, number>;
+};
+
+/**
+ * Spending checks for simulated operations, like TransactionGuard for live
+ * ones. `beforeApply` may throw to abort the operation, or return the
+ * signature under which it was applied after operator approval.
+ */
+export type PaperGuard = {
+  beforeApply?(check: PaperCheck): Promise<string | void>;
+  afterApply?(check: PaperCheck): Promise<void>;
+};
+
+type PaperOperation = {
+  kind: LedgerKind;
+  wallet: PublicKey;
+  amount?: bigint;
+  mint?: PublicKey;
+  destination?: PublicKey;
+  decimals?: number;
+  /** Fee paid by the wallet, in lamports. */
+  fee?: bigint;
+  outflows?: Map<BudgetAsset, number>;
+};
+
+/** Rent-exempt minimum for a mint account. */
+const MINT_RENT_LAMPORTS = 1_461_600n;
+/** Decimals assumed for mints the paper ledger has not seen created. */
+const DEFAULT_DECIMALS = 6;
+
+function accountOf(state: PaperState, owner: PublicKey): PaperAccount {
+  const key = owner.toBase58();
+  state.accounts[key] ??= { lamports: "0", tokens: {} };
+  return state.accounts[key];
+}
+
+function debitLamports(account: PaperAccount, lamports: bigint): void {
+  const balance = BigInt(account.lamports);
+  if (lamports > balance) {
+    throw new Error(
+      `Insufficient SOL: need ${Number(lamports) / LAMPORTS_PER_SOL}, have ${Number(balance) / LAMPORTS_PER_SOL}`,
+    );
+  }
+  account.lamports = (balance - lamports).toString();
+}
+
+function creditLamports(account: PaperAccount, lamports: bigint): void {
+  account.lamports = (BigInt(account.lamports) + lamports).toString();
+}
+
+/** The instruction a live agent would sign for the same operation. */
+function instructionOf(operation: PaperOperation): DecodedInstruction {
+  const wallet = operation.wallet.toBase58();
+  const amount = operation.amount ?? 0n;
+  const programId = TOKEN_PROGRAM_ID.toBase58();
+  const ata = (owner: PublicKey) =>
+    getAssociatedTokenAddressSync(operation.mint!, owner, true).toBase58();
+  switch (operation.kind) {
+    case "sol_transfer":
+      return {
+        kind: "sol_transfer",
+        programId: SystemProgram.programId.toBase58(),
+        from: wallet,
+        to: operation.destination!.toBase58(),
+        lamports: amount,
+      };
+    case "create_mint":
+      return {
+        kind: "create_account",
+        programId: SystemProgram.programId.toBase58(),
+        from: wallet,
+        newAccount: operation.mint!.toBase58(),
+        lamports: MINT_RENT_LAMPORTS,
+      };
+    case "spl_mint":
+      return {
+        kind: "spl_mint",
+        programId,
+        mint: operation.mint!.toBase58(),
+        destination: ata(operation.destination!),
+        authority: wallet,
+        amount,
+      };
+    case "spl_transfer":
+      return {
+        kind: "spl_transfer",
+        programId,
+        source: ata(operation.wallet),
+        destination: ata(operation.destination!),
+        owner: wallet,
+        amount,
+        mint: operation.mint!.toBase58(),
+      };
+    case "spl_burn":
+      return {
+        kind: "spl_burn",
+        programId,
+        account: ata(operation.wallet),
+        mint: operation.mint!.toBase58(),
+        owner: wallet,
+        amount,
+      };
+    default:
+      return { kind: "unknown", programId: SystemProgram.programId.toBase58() };
+  }
+}
+
+function checkOf(
+  operation: PaperOperation,
+  outflows: Map<BudgetAsset, number>,
+): PaperCheck {
+  const record: PaperOperationRecord = {
+    kind: operation.kind,
+    wallet: operation.wallet.toBase58(),
+    amount: operation.amount?.toString(),
+    mint: operation.mint?.toBase58(),
+    destination: operation.destination?.toBase58(),
+    decimals: operation.decimals,
+  };
+  return { operation: record, ...describePaperOperation(record), outflows };
+}
+
+/**
+ * The instructions a live agent would sign for a recorded paper operation,
+ * with the mint and decimals of its SPL instruction, for policy checks.
+ */
+export function describePaperOperation(
+  record: PaperOperationRecord,
+): Pick<PaperCheck, "decoded" | "tokenInfo"> {
+  const operation: PaperOperation = {
+    kind: record.kind,
+    wallet: new PublicKey(record.wallet),
+    amount: record.amount === undefined ? undefined : BigInt(record.amount),
+    mint: record.mint === undefined ? undefined : new PublicKey(record.mint),
+    destination:
+      record.destination === undefined
+        ? undefined
+        : new PublicKey(record.destination),
+    decimals: record.decimals,
+  };
+  const tokenInfo = new Map<number, { mint: string; decimals: number }>();
+  if (record.mint !== undefined && record.decimals !== undefined) {
+    tokenInfo.set(0, { mint: record.mint, decimals: record.decimals });
+  }
+  return {
+    decoded: {
+      feePayer: record.wallet,
+      instructions: [instructionOf(operation)],
+    },
+    tokenInfo,
+  };
+}
+
+/**
+ * Paper-mode stand-in for TokenService. SOL and SPL balances, mints,
+ * transfers, burns and fees are applied to a PaperLedger instead of the network,
+ * and every ledger entry and event is marked simulated. Signatures are
+ * "paper-" ids.
+ */
+export class PaperTokenService implements AgentTokenService {
+  private readonly guard?: PaperGuard;
+  private readonly agentId?: string;
+  private readonly ledger: TransactionLedger;
+  private readonly events?: EventBus;
+  private readonly fee: bigint;
+  private readonly approvalId?: string;
+
+  constructor(
+    private readonly paper: PaperLedger = new PaperLedger(),
+    options?: {
+      guard?: PaperGuard;
+      agentId?: string;
+      ledger?: TransactionLedger;
+      events?: EventBus;
+      feeLamports?: number;
+      /** Approval item being applied; its ledger entry is updated. */
+      approvalId?: string;
+    },
+  ) {
+    this.guard = options?.guard;
+    this.agentId = options?.agentId;
+    this.ledger = options?.ledger ?? new TransactionLedger();
+    this.events = options?.events;
+    this.fee = BigInt(options?.feeLamports ?? PAPER_FEE_LAMPORTS);
+    this.approvalId = options?.approvalId;
+  }
+
+  /** Applies an operation that was parked for approval. */
+  async replay(
+    wallet: Keypair,
+    operation: PaperOperationRecord,
+  ): Promise<string> {
+    const { kind, amount = "0", mint, destination, decimals } = operation;
+    const tokens = () => TokenAmount.fromRaw(amount, decimals ?? 0);
+    switch (kind) {
+      case "sol_transfer":
+        return this.transferSol(
+          wallet,
+          new PublicKey(destination!),
+          Number(amount) / LAMPORTS_PER_SOL,
+        );
+      case "spl_mint":
+        return this.mintSpl(
+          wallet,
+          new PublicKey(mint!),
+          new PublicKey(destination!),
+          tokens(),
+        );
+      case "spl_transfer":
+        return this.transferSpl(
+          wallet,
+          new PublicKey(mint!),
+          wallet,
+          new PublicKey(destination!),
+          tokens(),
+        );
+      case "spl_burn":
+        return this.burnSpl(wallet, new PublicKey(mint!), tokens());
+      default:
+        throw new Error(`Cannot replay a paper ${kind} operation`);
+    }
+  }
+
+  async getSolBalance(pubkey: PublicKey): Promise<number> {
+    const account = (await this.paper.read()).accounts[pubkey.toBase58()];
+    return Number(account?.lamports ?? 0) / LAMPORTS_PER_SOL;
+  }
+
+  async getSplBalances(owner: PublicKey): Promise<SplBalance[]> {
+    const state = await this.paper.read();
+    const tokens = state.accounts[owner.toBase58()]?.tokens ?? {};
+    return Object.entries(tokens).map(([mint, raw]) => {
+      const decimals = state.mints[mint]?.decimals ?? DEFAULT_DECIMALS;
+      const metadata = state.mints[mint]?.metadata;
+      return {
+        mint,
+        amount: TokenAmount.fromRaw(raw, decimals).toString(),
+        raw,
+        decimals,
+        program: "spl-token",
+        ...(metadata && { name: metadata.name, symbol: metadata.symbol }),
+      };
+    });
+  }
+
+  async getMintDecimals(mint: PublicKey): Promise<number> {
+    const state = await this.paper.read();
+    return state.mints[mint.toBase58()]?.decimals ?? DEFAULT_DECIMALS;
+  }
+
+  async requestAirdrop(pubkey: PublicKey, sol: number): Promise<string> {
+    const lamports = BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+    return this.apply(
+      { kind: "airdrop", wallet: pubkey, amount: lamports },
+      (state) => creditLamports(accountOf(state, pubkey), lamports),
+    );
+  }
+
+  async transferSol(
+    from: Keypair,
+    to: PublicKey,
+    sol: number,
+  ): Promise<string> {
+    const lamports = BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+    return this.apply(
+      {
+        kind: "sol_transfer",
+        wallet: from.publicKey,
+        amount: lamports,
+        destination: to,
+        fee: this.fee,
+        outflows: this.solOutflow(lamports + this.fee),
+      },
+      (state) => {
+        debitLamports(accountOf(state, from.publicKey), lamports + this.fee);
+        creditLamports(accountOf(state, to), lamports);
+      },
+    );
+  }
+
+  async createSplMint(
+    payer: Keypair,
+    decimals: number,
+    options?: CreateMintOptions,
+  ): Promise<PublicKey> {
+    const mint = Keypair.generate().publicKey;
+    const cost = MINT_RENT_LAMPORTS + this.fee;
+    await this.apply(
+      {
+        kind: "create_mint",
+        wallet: payer.publicKey,
+        mint,
+        fee: this.fee,
+        outflows: this.solOutflow(cost),
+      },
+      (state) => {
+        debitLamports(accountOf(state, payer.publicKey), cost);
+        state.mints[mint.toBase58()] = {
+          decimals,
+          authority: (options?.mintAuthority ?? payer.publicKey).toBase58(),
+          supply: "0",
+          metadata: options?.metadata,
+        };
+      },
+    );
+    return mint;
+  }
+
+  async mintSpl(
+    payer: Keypair,
+    mint: PublicKey,
+    destinationOwner: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    return this.apply(
+      {
+        kind: "spl_mint",
+        wallet: payer.publicKey,
+        amount: amount.raw,
+        mint,
+        destination: destinationOwner,
+        decimals: amount.decimals,
+        fee: this.fee,
+        outflows: this.solOutflow(this.fee),
+      },
+      (state) => {
+        const key = mint.toBase58();
+        // Mints created on chain are unknown here; the first minter owns them
+        const info = (state.mints[key] ??= {
+          decimals: amount.decimals,
+          authority: payer.publicKey.toBase58(),
+          supply: "0",
+        });
+        if (info.authority !== payer.publicKey.toBase58()) {
+          throw new Error(
+            `${payer.publicKey.toBase58()} is not the mint authority of ${key}`,
+          );
+        }
+        amount.assertDecimals(info.decimals);
+        debitLamports(accountOf(state, payer.publicKey), this.fee);
+        const destination = accountOf(state, destinationOwner);
+        destination.tokens[key] = (
+          BigInt(destination.tokens[key] ?? 0) + amount.raw
+        ).toString();
+        info.supply = (BigInt(info.supply) + amount.raw).toString();
+      },
+    );
+  }
+
+  async transferSpl(
+    payer: Keypair,
+    mint: PublicKey,
+    fromOwner: Keypair,
+    toOwner: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    const key = mint.toBase58();
+    amount.assertDecimals(await this.getMintDecimals(mint));
+    const outflows = this.solOutflow(this.fee);
+    outflows.set(key, amount.toNumber());
+    return this.apply(
+      {
+        kind: "spl_transfer",
+        wallet: fromOwner.publicKey,
+        amount: amount.raw,
+        mint,
+        destination: toOwner,
+        decimals: amount.decimals,
+        fee: this.fee,
+        outflows,
+      },
+      (state) => {
+        const source = accountOf(state, fromOwner.publicKey);
+        const held = BigInt(source.tokens[key] ?? 0);
+        if (amount.raw > held) {
+          throw new Error(
+            `Insufficient token balance: need ${amount}, have ${TokenAmount.fromRaw(held, amount.decimals)}`,
+          );
+        }
+        debitLamports(accountOf(state, payer.publicKey), this.fee);
+        source.tokens[key] = (held - amount.raw).toString();
+        const destination = accountOf(state, toOwner);
+        destination.tokens[key] = (
+          BigInt(destination.tokens[key] ?? 0) + amount.raw
+        ).toString();
+      },
+    );
+  }
+
+  async burnSpl(
+    owner: Keypair,
+    mint: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    const key = mint.toBase58();
+    amount.assertDecimals(await this.getMintDecimals(mint));
+    const outflows = this.solOutflow(this.fee);
+    outflows.set(key, amount.toNumber());
+    return this.apply(
+      {
+        kind: "spl_burn",
+        wallet: owner.publicKey,
+        amount: amount.raw,
+        mint,
+        decimals: amount.decimals,
+        fee: this.fee,
+        outflows,
+      },
+      (state) => {
+        const account = accountOf(state, owner.publicKey);
+        const held = BigInt(account.tokens[key] ?? 0);
+        if (amount.raw > held) {
+          throw new Error(
+            `Insufficient token balance: need ${amount}, have ${TokenAmount.fromRaw(held, amount.decimals)}`,
+          );
+        }
+        debitLamports(account, this.fee);
+        account.tokens[key] = (held - amount.raw).toString();
+        const info = state.mints[key];
+        if (info) {
+          info.supply = (BigInt(info.supply) - amount.raw).toString();
+        }
+      },
+    );
+  }
+
+  private solOutflow(lamports: bigint): Map<BudgetAsset, number> {
+    return new Map([[SOL_ASSET, Number(lamports) / LAMPORTS_PER_SOL]]);
+  }
+
+  /**
+   * Runs the spending checks, applies the change to the paper balances and
+   * records the outcome in the transaction ledger, like TokenService.submit.
+   */
+  private async apply(
+    operation: PaperOperation,
+    change: (state: PaperState) => void,
+  ): Promise<string> {
+    const entry = {
+      agentId: this.agentId,
+      wallet: operation.wallet.toBase58(),
+      kind: operation.kind,
+      amount: operation.amount?.toString(),
+      mint: operation.mint?.toBase58(),
+      destination: operation.destination?.toBase58(),
+      approvalId: this.approvalId,
+      simulated: true,
+      createdAt: new Date().toISOString(),
+    };
+    const check = operation.outflows
+      ? checkOf(operation, operation.outflows)
+      : undefined;
+    try {
+      if (check) {
+        const approved = await this.guard?.beforeApply?.(check);
+        if (approved) {
+          // Applied by the operator's approval
+          return approved;
+        }
+      }
+      await this.paper.update(change);
+    } catch (error) {
+      const status =
+        error instanceof SpendingLimitError ||
+        error instanceof PolicyViolationError
+          ? "rejected"
+          : error instanceof ApprovalError && error.status === "pending"
+            ? "parked"
+            : "failed";
+      const message = error instanceof Error ? error.message : String(error);
+      await this.ledger.record({
+        ...entry,
+        status,
+        error: message,
+        approvalId:
+          error instanceof ApprovalError ? error.approvalId : entry.approvalId,
+      });
+      this.events?.emit("transaction_failed", {
+        id: this.agentId,
+        wallet: entry.wallet,
+        kind: entry.kind,
+        status,
+        error: message,
+        simulated: true,
+      });
+      throw error;
+    }
+    const signature = `paper-${randomUUID()}`;
+    const fee = operation.fee !== undefined ? Number(operation.fee) : undefined;
+    await this.ledger.record({
+      ...entry,
+      signature,
+      status: "confirmed",
+      fee,
+    });
+    this.events?.emit("transaction_sent", {
+      id: this.agentId,
+      wallet: entry.wallet,
+      kind: entry.kind,
+      signature,
+      fee,
+      simulated: true,
+    });
+    if (check) {
+      await this.guard?.afterApply?.(check);
+    }
+    return signature;
+  }
+}
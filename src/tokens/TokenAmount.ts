@@ -0,0 +1,154 @@
+/** An amount that cannot be represented exactly at its mint's decimals. */
+export class TokenAmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenAmountError";
+  }
+}
+
+const DECIMAL = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+/**
+ * Largest exponent accepted: 255 decimals (the most a mint can have) plus
+ * the 20 digits of a u64. Anything beyond it cannot be represented, and
+ * expanding it would allocate a string of that many digits.
+ */
+const MAX_EXPONENT = 275;
+
+/**
+ * Splits a non-negative decimal (string, or number in its shortest form) into
+ * whole and fractional digits, expanding exponent notation.
+ */
+function splitDecimal(value: string | number): {
+  whole: string;
+  fraction: string;
+} {
+  const text = typeof value === "number" ? String(value) : value.trim();
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new TokenAmountError(`Invalid token amount: ${text}`);
+  }
+  if (text.startsWith("-")) {
+    throw new TokenAmountError(`Token amount must not be negative: ${text}`);
+  }
+  const match = DECIMAL.exec(text);
+  if (!match || !(match[1] || match[2])) {
+    throw new TokenAmountError(`Invalid token amount: ${JSON.stringify(text)}`);
+  }
+  const exponent = Number(match[3] ?? 0);
+  if (Math.abs(exponent) > MAX_EXPONENT) {
+    throw new TokenAmountError(`Token amount exponent out of range: ${text}`);
+  }
+  const digits = (match[1] ?? "") + (match[2] ?? "");
+  const point = (match[1] ?? "").length + exponent;
+  const padded =
+    point < 0 ? "0".repeat(-point) + digits : digits.padEnd(point, "0");
+  const at = Math.max(point, 0);
+  return { whole: padded.slice(0, at) || "0", fraction: padded.slice(at) };
+}
+
+/** Largest amount the token program holds: a u64 of base units. */
+const MAX_RAW = 2n ** 64n - 1n;
+
+function checkRaw(raw: bigint, input: string | number | bigint): bigint {
+  if (raw > MAX_RAW) {
+    throw new TokenAmountError(
+      `Token amount ${input} exceeds the u64 maximum of ${MAX_RAW} base units`,
+    );
+  }
+  return raw;
+}
+
+function checkDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new TokenAmountError(`Invalid token decimals: ${decimals}`);
+  }
+}
+
+/**
+ * An exact token amount: base units plus the mint's decimals. Parse user
+ * input with `parse`, which refuses digits the mint cannot hold, and
+ * computed amounts (a size times a price) with `floor`.
+ */
+export class TokenAmount {
+  private constructor(
+    /** Base units, as the token program counts them. */
+    readonly raw: bigint,
+    readonly decimals: number,
+  ) {}
+
+  static fromRaw(raw: bigint | string, decimals: number): TokenAmount {
+    checkDecimals(decimals);
+    const value = BigInt(raw);
+    if (value < 0n) {
+      throw new TokenAmountError(`Token amount must not be negative: ${raw}`);
+    }
+    return new TokenAmount(checkRaw(value, raw), decimals);
+  }
+
+  /** Parses a UI amount such as "1.25" exactly. */
+  static parse(value: string | number, decimals: number): TokenAmount {
+    checkDecimals(decimals);
+    const { whole, fraction } = splitDecimal(value);
+    const significant = fraction.replace(/0+$/, "");
+    if (significant.length > decimals) {
+      throw new TokenAmountError(
+        `${value} has more than ${decimals} decimal places`,
+      );
+    }
+    return new TokenAmount(
+      checkRaw(BigInt(whole + significant.padEnd(decimals, "0")), value),
+      decimals,
+    );
+  }
+
+  /** Like `parse`, but drops the digits the mint cannot hold. */
+  static floor(value: string | number, decimals: number): TokenAmount {
+    checkDecimals(decimals);
+    const { whole, fraction } = splitDecimal(value);
+    return new TokenAmount(
+      checkRaw(
+        BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, "0")),
+        value,
+      ),
+      decimals,
+    );
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  /** The smaller of two amounts of the same mint. */
+  min(other: TokenAmount): TokenAmount {
+    other.assertDecimals(this.decimals);
+    return other.raw < this.raw ? other : this;
+  }
+
+  /** Throws unless the amount is at `decimals`, i.e. for the same mint. */
+  assertDecimals(decimals: number): void {
+    if (this.decimals !== decimals) {
+      throw new TokenAmountError(
+        `Amount has ${this.decimals} decimals but the mint has ${decimals}`,
+      );
+    }
+  }
+
+  /** The UI amount, exact and without trailing zeros. */
+  toString(): string {
+    const base = 10n ** BigInt(this.decimals);
+    const whole = this.raw / base;
+    const fraction = (this.raw % base)
+      .toString()
+      .padStart(this.decimals, "0")
+      .replace(/0+$/, "");
+    return fraction ? `${whole}.${fraction}` : whole.toString();
+  }
+
+  /** The UI amount as a number, for prices and reporting only. */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
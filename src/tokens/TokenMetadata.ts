@@ -0,0 +1,203 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { ExtensionType, getExtensionData } from "@solana/spl-token";
+import { TOKEN_METADATA_STORE, TOKEN_METADATA_TTL_MS } from "../config.js";
+
+/** A token's display name, ticker and off-chain JSON URI. */
+export type TokenMetadata = {
+  name: string;
+  symbol: string;
+  uri: string;
+};
+
+/** Metaplex Token Metadata, where most classic SPL mints keep theirs. */
+export const METAPLEX_METADATA_PROGRAM_ID = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s",
+);
+
+/** Token metadata interface `Initialize`, sent to the token program. */
+const INITIALIZE_DISCRIMINATOR = createHash("sha256")
+  .update("spl_token_metadata_interface:initialize_account")
+  .digest()
+  .subarray(0, 8);
+/** Type and length header of a TLV entry. */
+const TLV_HEADER_SIZE = 4;
+
+export function metaplexMetadataAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      METAPLEX_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    METAPLEX_METADATA_PROGRAM_ID,
+  )[0];
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+/** Reads borsh strings in order, dropping the zero padding Metaplex adds. */
+function readStrings(data: Buffer, offset: number, count: number): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = data.readUInt32LE(offset);
+    offset += 4;
+    if (offset + length > data.length) {
+      throw new Error("Token metadata is truncated");
+    }
+    values.push(
+      data
+        .subarray(offset, offset + length)
+        .toString("utf8")
+        .replace(/\0+$/, ""),
+    );
+    offset += length;
+  }
+  return values;
+}
+
+/**
+ * Writes metadata into a Token-2022 mint that points at itself. The mint
+ * authority signs; the update authority may change the fields later.
+ */
+export function createInitializeTokenMetadataInstruction(args: {
+  programId: PublicKey;
+  mint: PublicKey;
+  mintAuthority: PublicKey;
+  updateAuthority: PublicKey;
+  metadata: TokenMetadata;
+}): TransactionInstruction {
+  const { programId, mint, mintAuthority, updateAuthority, metadata } = args;
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: updateAuthority, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.concat([
+      INITIALIZE_DISCRIMINATOR,
+      encodeString(metadata.name),
+      encodeString(metadata.symbol),
+      encodeString(metadata.uri),
+    ]),
+  });
+}
+
+/**
+ * Bytes the metadata entry adds to a mint: the token program reallocates
+ * for it, so the mint's rent has to cover them up front.
+ */
+export function tokenMetadataSpace(metadata: TokenMetadata): number {
+  return (
+    TLV_HEADER_SIZE +
+    32 + // update authority
+    32 + // mint
+    encodeString(metadata.name).length +
+    encodeString(metadata.symbol).length +
+    encodeString(metadata.uri).length +
+    4 // additional fields, always empty here
+  );
+}
+
+/** The metadata entry of a Token-2022 mint's extension data, if any. */
+export function decodeToken2022Metadata(tlvData: Buffer): TokenMetadata | null {
+  const data = getExtensionData(ExtensionType.TokenMetadata, tlvData);
+  if (!data) {
+    return null;
+  }
+  const [name, symbol, uri] = readStrings(data, 64, 3);
+  return { name, symbol, uri };
+}
+
+/** A Metaplex metadata account: key, update authority, mint, then strings. */
+export function decodeMetaplexMetadata(data: Buffer): TokenMetadata {
+  const [name, symbol, uri] = readStrings(data, 1 + 32 + 32, 3);
+  return { name, symbol, uri };
+}
+
+type CacheEntry = {
+  /** Null when the mint has no metadata. */
+  metadata: TokenMetadata | null;
+  fetchedAt: number;
+};
+
+/**
+ * File-backed metadata by mint, so balance views do not refetch it on every
+ * call. Mints without metadata are cached too. Entries older than `ttlMs`
+ * are refetched, which picks up metadata added or changed since. Pass no
+ * path to keep the cache in memory only.
+ */
+export class TokenMetadataCache {
+  private writes: Promise<unknown> = Promise.resolve();
+  private memory: Record<string, CacheEntry> = {};
+
+  constructor(
+    private readonly storePath: string | null = TOKEN_METADATA_STORE,
+    private readonly ttlMs: number = TOKEN_METADATA_TTL_MS,
+  ) {}
+
+  /** Fresh entries for `mints`; mints missing from the result need fetching. */
+  async get(mints: string[]): Promise<Map<string, TokenMetadata | null>> {
+    await this.writes.catch(() => undefined);
+    const entries = await this.load();
+    const now = Date.now();
+    const found = new Map<string, TokenMetadata | null>();
+    for (const mint of mints) {
+      const entry = entries[mint];
+      if (entry && now - entry.fetchedAt < this.ttlMs) {
+        found.set(mint, entry.metadata);
+      }
+    }
+    return found;
+  }
+
+  set(metadata: Map<string, TokenMetadata | null>): Promise<void> {
+    const write = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        const entries = await this.load();
+        const fetchedAt = Date.now();
+        for (const [mint, value] of metadata) {
+          entries[mint] = { metadata: value, fetchedAt };
+        }
+        await this.save(entries);
+      });
+    this.writes = write;
+    return write;
+  }
+
+  private async load(): Promise<Record<string, CacheEntry>> {
+    if (!this.storePath) {
+      return structuredClone(this.memory);
+    }
+    try {
+      const raw = await fs.readFile(this.storePath, "utf8");
+      return JSON.parse(raw) as Record<string, CacheEntry>;
+    } catch {
+      return {};
+    }
+  }
+
+  private async save(entries: Record<string, CacheEntry>): Promise<void> {
+    if (!this.storePath) {
+      this.memory = entries;
+      return;
+    }
+    const dir = path.dirname(this.storePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      this.storePath,
+      JSON.stringify(entries, null, 2),
+      "utf8",
+    );
+  }
+}
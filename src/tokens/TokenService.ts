@@ -5,27 +5,222 @@ import {
   PublicKey,
   SystemProgram,
   Transaction,
-  sendAndConfirmTransaction,
+  TransactionInstruction,
 } from "@solana/web3.js";
 import {
+  AuthorityType,
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
   TOKEN_PROGRAM_ID,
-  createMint,
-  getOrCreateAssociatedTokenAccount,
-  mintTo,
-  transfer,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnInstruction,
+  createCloseAccountInstruction,
+  createFreezeAccountInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMint2Instruction,
+  createInitializeTransferFeeConfigInstruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  createThawAccountInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getExtensionTypes,
+  getMint,
+  getMintLen,
+  unpackAccount,
+  unpackMint,
 } from "@solana/spl-token";
 import { AIRDROP_RPC_URL } from "../config.js";
+import { WalletService } from "../wallet/WalletService.js";
+import { AnyTransaction, TransactionGuard } from "../wallet/types.js";
+import { FeePolicy } from "../wallet/ComputeBudget.js";
+import {
+  SendResult,
+  TransactionSendError,
+  TransactionSender,
+} from "../wallet/TransactionSender.js";
+import { EventBus } from "../orchestrator/EventBus.js";
+import { LedgerKind, TransactionLedger } from "../ledger/TransactionLedger.js";
+import { SwapQuote } from "../swaps/SwapAdapter.js";
+import { TokenAmount, TokenAmountError } from "./TokenAmount.js";
+import {
+  METAPLEX_METADATA_PROGRAM_ID,
+  TokenMetadata,
+  TokenMetadataCache,
+  createInitializeTokenMetadataInstruction,
+  decodeMetaplexMetadata,
+  decodeToken2022Metadata,
+  metaplexMetadataAddress,
+  tokenMetadataSpace,
+} from "./TokenMetadata.js";
+import {
+  ApprovalError,
+  PolicyViolationError,
+  SpendingLimitError,
+} from "../security/errors.js";
+
+/** The classic SPL Token program, or Token-2022 (token extensions). */
+export type TokenProgramName = "spl-token" | "token-2022";
+
+/** A transfer fee cap that never binds. */
+const U64_MAX = 2n ** 64n - 1n;
+/** Most accounts one `getMultipleAccountsInfo` call returns. */
+const MAX_MULTIPLE_ACCOUNTS = 100;
 
 export type SplBalance = {
   mint: string;
+  /**
+   * UI amount for display. Not always raw / 10^decimals: interest-bearing
+   * and scaled Token-2022 mints adjust it.
+   */
   amount: string;
+  /** Base units held; build amounts from this with `TokenAmount.fromRaw`. */
+  raw: string;
   decimals: number;
+  program: TokenProgramName;
+  /** From the mint's metadata, when it has any. */
+  name?: string;
+  symbol?: string;
+};
+
+export type MintInfo = {
+  mint: string;
+  program: TokenProgramName;
+  /** Base units. */
+  supply: string;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  /** Token-2022 extension names, e.g. "TransferFeeConfig". */
+  extensions: string[];
+  metadata: TokenMetadata | null;
+};
+
+/** Mint authority: who may mint. Freeze authority: who may freeze accounts. */
+export type MintAuthorityKind = "mint" | "freeze";
+
+export type MintAuthorities = {
+  /** Defaults to the payer. */
+  mintAuthority?: PublicKey;
+  /** Defaults to none, which can never be added later. */
+  freezeAuthority?: PublicKey | null;
+};
+
+/**
+ * Token-2022 extensions for new mints. Their authorities are the mint
+ * authority.
+ */
+export type Token2022Extensions = {
+  /** Withheld from every transfer, capped at `maxFee` base units if set. */
+  transferFee?: { basisPoints: number; maxFee?: bigint };
+  /** Where the mint's metadata lives; the mint itself by default. */
+  metadataPointer?: { metadataAddress?: PublicKey };
+  /** Interest rate in basis points per year; only changes the UI amount. */
+  interestRateBps?: number;
+};
+
+export type CreateMintOptions = MintAuthorities & {
+  /** Creates a Token-2022 mint with these extensions (may be empty). */
+  token2022?: Token2022Extensions;
+  /**
+   * Written into the mint with Token-2022's metadata extension, so it
+   * implies `token2022` with a metadata pointer to the mint. The mint
+   * authority may update it.
+   */
+  metadata?: TokenMetadata;
+};
+
+export function tokenProgramName(programId: PublicKey): TokenProgramName {
+  return programId.equals(TOKEN_2022_PROGRAM_ID) ? "token-2022" : "spl-token";
+}
+
+/**
+ * An authority change the current holder cannot undo: revoking it, or
+ * handing it to another key.
+ */
+export function isIrreversibleAuthorityChange(
+  current: PublicKey,
+  newAuthority: PublicKey | null,
+): boolean {
+  return newAuthority === null || !newAuthority.equals(current);
+}
+
+/** What an authority change does, for confirmation prompts. */
+export function describeAuthorityChange(
+  kind: MintAuthorityKind,
+  mint: PublicKey,
+  newAuthority: PublicKey | null,
+): string {
+  if (newAuthority) {
+    return `Transfers the ${kind} authority of ${mint.toBase58()} to ${newAuthority.toBase58()}; only the new authority can change it again.`;
+  }
+  return kind === "mint"
+    ? `Revokes the mint authority of ${mint.toBase58()} permanently; its supply becomes fixed.`
+    : `Revokes the freeze authority of ${mint.toBase58()} permanently; its accounts can never be frozen or thawed.`;
+}
+
+type LedgerDetails = {
+  kind: LedgerKind;
+  wallet: PublicKey;
+  amount?: bigint;
+  mint?: PublicKey;
+  destination?: PublicKey;
 };
 
+/** The token operations strategies act through. */
+export type TokenOperations = Pick<
+  TokenService,
+  | "getSplBalances"
+  | "getMintDecimals"
+  | "transferSol"
+  | "mintSpl"
+  | "transferSpl"
+  | "burnSpl"
+>;
+
+/**
+ * Everything the orchestrator does with an agent's tokens. TokenService
+ * implements it on chain and PaperTokenService in paper mode.
+ */
+export type AgentTokenService = TokenOperations &
+  Pick<TokenService, "getSolBalance" | "requestAirdrop" | "createSplMint">;
+
 export class TokenService {
+  private readonly connection: Connection;
   private readonly airdropConnection: Connection;
+  private readonly guard?: TransactionGuard;
+  private readonly feePolicy?: FeePolicy;
+  private readonly agentId?: string;
+  private readonly ledger: TransactionLedger;
+  private readonly events?: EventBus;
+  private readonly metadataCache: TokenMetadataCache;
+  /** Owning token program by mint; a mint never changes program. */
+  private readonly mintPrograms = new Map<string, PublicKey>();
+  /** Decimals by mint, which are fixed when the mint is created. */
+  private readonly mintDecimals = new Map<string, number>();
 
-  constructor(private readonly connection: Connection) {
+  constructor(
+    private readonly walletService: WalletService,
+    options?: {
+      guard?: TransactionGuard;
+      /** Priority fee policy for every transaction this service sends. */
+      feePolicy?: FeePolicy;
+      agentId?: string;
+      ledger?: TransactionLedger;
+      events?: EventBus;
+      metadataCache?: TokenMetadataCache;
+    },
+  ) {
+    this.guard = options?.guard;
+    this.feePolicy = options?.feePolicy;
+    this.agentId = options?.agentId;
+    this.ledger = options?.ledger ?? new TransactionLedger();
+    this.events = options?.events;
+    this.metadataCache = options?.metadataCache ?? new TokenMetadataCache();
+    const connection = walletService.getConnection();
+    this.connection = connection;
     const airdropUrl = AIRDROP_RPC_URL.trim();
     this.airdropConnection =
       airdropUrl && airdropUrl !== connection.rpcEndpoint
@@ -33,18 +228,35 @@ export class TokenService {
         : connection;
   }
 
+  getConnection(): Connection {
+    return this.connection;
+  }
+
   async getSolBalance(pubkey: PublicKey): Promise<number> {
     const lamports = await this.connection.getBalance(pubkey, "confirmed");
     return lamports / LAMPORTS_PER_SOL;
   }
 
   async requestAirdrop(pubkey: PublicKey, sol: number): Promise<string> {
-    const signature = await this.airdropConnection.requestAirdrop(
-      pubkey,
-      Math.round(sol * LAMPORTS_PER_SOL),
+    const lamports = Math.round(sol * LAMPORTS_PER_SOL);
+    return this.submit(
+      { kind: "airdrop", wallet: pubkey, amount: BigInt(lamports) },
+      async () => {
+        const lifetime =
+          await this.airdropConnection.getLatestBlockhash("confirmed");
+        const signature = await this.airdropConnection.requestAirdrop(
+          pubkey,
+          lamports,
+        );
+        const result = await new TransactionSender(
+          this.airdropConnection,
+        ).track(signature, lifetime);
+        if (result.status !== "confirmed") {
+          throw new TransactionSendError(result);
+        }
+        return result;
+      },
     );
-    await this.airdropConnection.confirmTransaction(signature, "confirmed");
-    return signature;
   }
 
   async transferSol(
@@ -52,94 +264,475 @@ export class TokenService {
     to: PublicKey,
     sol: number,
   ): Promise<string> {
-    const lamports = Math.round(sol * LAMPORTS_PER_SOL);
+    const details: LedgerDetails = {
+      kind: "sol_transfer",
+      wallet: from.publicKey,
+      amount: BigInt(Math.round(sol * LAMPORTS_PER_SOL)),
+      destination: to,
+    };
+    return this.submit(details, () =>
+      this.walletService.signAndSendTransaction(
+        this.buildTransferSolTransaction(from.publicKey, to, sol),
+        from,
+        { guard: this.guard, feePolicy: this.feePolicy },
+      ),
+    );
+  }
 
-    // Retry up to 3 times with fresh blockhashes to handle devnet congestion
-    let lastError: unknown;
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        const { blockhash, lastValidBlockHeight } =
-          await this.connection.getLatestBlockhash("confirmed");
-
-        const tx = new Transaction({
-          blockhash,
-          lastValidBlockHeight,
-          feePayer: from.publicKey,
-        }).add(
-          SystemProgram.transfer({
-            fromPubkey: from.publicKey,
-            toPubkey: to,
-            lamports,
-          }),
-        );
+  buildTransferSolTransaction(
+    from: PublicKey,
+    to: PublicKey,
+    sol: number,
+  ): Transaction {
+    return new Transaction({ feePayer: from }).add(
+      SystemProgram.transfer({
+        fromPubkey: from,
+        toPubkey: to,
+        lamports: Math.round(sol * LAMPORTS_PER_SOL),
+      }),
+    );
+  }
 
-        const signature = await sendAndConfirmTransaction(
-          this.connection,
-          tx,
-          [from],
-          {
-            commitment: "confirmed",
-            maxRetries: 3,
-            preflightCommitment: "confirmed",
-          },
-        );
-        return signature;
-      } catch (err) {
-        lastError = err;
-        const msg = String(err);
-        if (
-          msg.includes("block height exceeded") ||
-          msg.includes("Blockhash not found")
-        ) {
-          // Retry with a fresh blockhash
-          continue;
-        }
-        throw err;
+  /**
+   * Token accounts held under both token programs, named from their mints'
+   * metadata where it can be found.
+   */
+  async getSplBalances(owner: PublicKey): Promise<SplBalance[]> {
+    const programs = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+    const results = await Promise.all(
+      programs.map((programId) =>
+        this.connection.getParsedTokenAccountsByOwner(
+          owner,
+          { programId },
+          "confirmed",
+        ),
+      ),
+    );
+
+    const balances: SplBalance[] = results.flatMap((accounts, i) =>
+      accounts.value.map((entry) => {
+        const info = entry.account.data.parsed.info;
+        return {
+          mint: info.mint as string,
+          amount: (info.tokenAmount.uiAmountString as string | null) ?? "0",
+          raw: info.tokenAmount.amount as string,
+          decimals: info.tokenAmount.decimals as number,
+          program: tokenProgramName(programs[i]),
+        };
+      }),
+    );
+    // Balances matter more than names: show them bare if the lookup fails
+    const metadata = await this.resolveMetadata(
+      balances.map((balance) => ({
+        mint: new PublicKey(balance.mint),
+        program: balance.program,
+      })),
+    ).catch(() => new Map<string, TokenMetadata | null>());
+    return balances.map((balance) => {
+      const found = metadata.get(balance.mint);
+      return found
+        ? { ...balance, name: found.name, symbol: found.symbol }
+        : balance;
+    });
+  }
+
+  /** A mint's name, symbol and URI, or null when it has none. */
+  async getTokenMetadata(mint: PublicKey): Promise<TokenMetadata | null> {
+    const program = tokenProgramName(await this.getTokenProgram(mint));
+    const metadata = await this.resolveMetadata([{ mint, program }]);
+    return metadata.get(mint.toBase58()) ?? null;
+  }
+
+  /**
+   * Metadata for each mint, from the cache or else the chain: the metadata
+   * extension of Token-2022 mints, then the Metaplex metadata account.
+   */
+  private async resolveMetadata(
+    mints: { mint: PublicKey; program: TokenProgramName }[],
+  ): Promise<Map<string, TokenMetadata | null>> {
+    const unique = [
+      ...new Map(mints.map((entry) => [entry.mint.toBase58(), entry])).values(),
+    ];
+    const resolved = await this.metadataCache.get(
+      unique.map((entry) => entry.mint.toBase58()),
+    );
+    const missing = unique.filter(
+      (entry) => !resolved.has(entry.mint.toBase58()),
+    );
+    if (missing.length === 0) {
+      return resolved;
+    }
+
+    const addresses = missing.flatMap((entry) =>
+      entry.program === "token-2022"
+        ? [entry.mint, metaplexMetadataAddress(entry.mint)]
+        : [metaplexMetadataAddress(entry.mint)],
+    );
+    const accounts = [];
+    for (let i = 0; i < addresses.length; i += MAX_MULTIPLE_ACCOUNTS) {
+      accounts.push(
+        ...(await this.connection.getMultipleAccountsInfo(
+          addresses.slice(i, i + MAX_MULTIPLE_ACCOUNTS),
+          "confirmed",
+        )),
+      );
+    }
+
+    const fetched = new Map<string, TokenMetadata | null>();
+    let next = 0;
+    for (const entry of missing) {
+      const mintAccount =
+        entry.program === "token-2022" ? accounts[next++] : null;
+      const metaplexAccount = accounts[next++];
+      let metadata: TokenMetadata | null = null;
+      if (mintAccount) {
+        const mint = unpackMint(entry.mint, mintAccount, TOKEN_2022_PROGRAM_ID);
+        metadata = decodeToken2022Metadata(mint.tlvData);
       }
+      if (
+        !metadata &&
+        metaplexAccount?.owner.equals(METAPLEX_METADATA_PROGRAM_ID)
+      ) {
+        metadata = decodeMetaplexMetadata(metaplexAccount.data);
+      }
+      fetched.set(entry.mint.toBase58(), metadata);
+      resolved.set(entry.mint.toBase58(), metadata);
     }
-    throw lastError;
+    await this.metadataCache.set(fetched);
+    return resolved;
   }
 
-  async getSplBalances(owner: PublicKey): Promise<SplBalance[]> {
-    const accounts = await this.connection.getParsedTokenAccountsByOwner(
-      owner,
-      { programId: TOKEN_PROGRAM_ID },
-      "confirmed",
+  /** The token program that owns `mint`: SPL Token or Token-2022. */
+  async getTokenProgram(mint: PublicKey): Promise<PublicKey> {
+    const cached = this.mintPrograms.get(mint.toBase58());
+    if (cached) {
+      return cached;
+    }
+    const account = await this.connection.getAccountInfo(mint, "confirmed");
+    if (!account) {
+      throw new Error(`Mint not found: ${mint.toBase58()}`);
+    }
+    if (
+      !account.owner.equals(TOKEN_PROGRAM_ID) &&
+      !account.owner.equals(TOKEN_2022_PROGRAM_ID)
+    ) {
+      throw new Error(
+        `${mint.toBase58()} is not a token mint (owner ${account.owner.toBase58()})`,
+      );
+    }
+    this.mintPrograms.set(mint.toBase58(), account.owner);
+    return account.owner;
+  }
+
+  async getMintDecimals(mint: PublicKey): Promise<number> {
+    const cached = this.mintDecimals.get(mint.toBase58());
+    if (cached !== undefined) {
+      return cached;
+    }
+    const programId = await this.getTokenProgram(mint);
+    const info = await getMint(this.connection, mint, "confirmed", programId);
+    this.mintDecimals.set(mint.toBase58(), info.decimals);
+    return info.decimals;
+  }
+
+  /**
+   * Parses a UI amount of `mint` at the mint's own decimals. `decimals`, when
+   * a caller states them, must match.
+   */
+  async parseAmount(
+    mint: PublicKey,
+    value: string | number,
+    decimals?: number,
+  ): Promise<TokenAmount> {
+    const actual = await this.getMintDecimals(mint);
+    if (decimals !== undefined && decimals !== actual) {
+      throw new TokenAmountError(
+        `${mint.toBase58()} has ${actual} decimals, not ${decimals}`,
+      );
+    }
+    return TokenAmount.parse(value, actual);
+  }
+
+  async getTokenAccountMint(account: PublicKey): Promise<PublicKey> {
+    const info = await this.connection.getAccountInfo(account, "confirmed");
+    if (!info) {
+      throw new Error(`Token account not found: ${account.toBase58()}`);
+    }
+    return unpackAccount(account, info, info.owner).mint;
+  }
+
+  async createSplMint(
+    payer: Keypair,
+    decimals: number,
+    options?: CreateMintOptions,
+  ): Promise<PublicKey> {
+    const mint = Keypair.generate();
+    const tx = await this.buildCreateMintTransaction(
+      payer.publicKey,
+      mint.publicKey,
+      decimals,
+      options,
+    );
+    await this.submit(
+      { kind: "create_mint", wallet: payer.publicKey, mint: mint.publicKey },
+      () =>
+        this.walletService.signAndSendTransaction(tx, payer, {
+          additionalSigners: [mint],
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
     );
+    if (options?.metadata) {
+      await this.metadataCache.set(
+        new Map([[mint.publicKey.toBase58(), options.metadata]]),
+      );
+    }
+    return mint.publicKey;
+  }
 
-    return accounts.value.map((entry) => {
-      const info = entry.account.data.parsed.info;
-      return {
-        mint: info.mint as string,
-        amount: (info.tokenAmount.uiAmountString as string | null) ?? "0",
-        decimals: info.tokenAmount.decimals as number,
-      };
-    });
+  /**
+   * Allocates and initializes a mint. Token-2022 extensions are initialized
+   * before the mint itself, as the program requires; metadata comes after,
+   * signed by the payer as interim mint authority.
+   */
+  async buildCreateMintTransaction(
+    payer: PublicKey,
+    mint: PublicKey,
+    decimals: number,
+    options?: CreateMintOptions,
+  ): Promise<Transaction> {
+    const mintAuthority = options?.mintAuthority ?? payer;
+    const metadata = options?.metadata;
+    const pointer = options?.token2022?.metadataPointer?.metadataAddress;
+    if (metadata && pointer && !pointer.equals(mint)) {
+      throw new Error(
+        "Metadata is stored in the mint, so the metadata pointer must point to the mint",
+      );
+    }
+    const extensions: Token2022Extensions | undefined = metadata
+      ? { ...options?.token2022, metadataPointer: { metadataAddress: mint } }
+      : options?.token2022;
+    const programId = extensions ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const types: ExtensionType[] = [];
+    const setup: TransactionInstruction[] = [];
+    if (extensions?.transferFee) {
+      types.push(ExtensionType.TransferFeeConfig);
+      setup.push(
+        createInitializeTransferFeeConfigInstruction(
+          mint,
+          mintAuthority,
+          mintAuthority,
+          extensions.transferFee.basisPoints,
+          extensions.transferFee.maxFee ?? U64_MAX,
+          programId,
+        ),
+      );
+    }
+    if (extensions?.metadataPointer) {
+      types.push(ExtensionType.MetadataPointer);
+      setup.push(
+        createInitializeMetadataPointerInstruction(
+          mint,
+          mintAuthority,
+          extensions.metadataPointer.metadataAddress ?? mint,
+          programId,
+        ),
+      );
+    }
+    if (extensions?.interestRateBps !== undefined) {
+      types.push(ExtensionType.InterestBearingConfig);
+      setup.push(
+        createInitializeInterestBearingMintInstruction(
+          mint,
+          mintAuthority,
+          extensions.interestRateBps,
+          programId,
+        ),
+      );
+    }
+    const space = getMintLen(types);
+    const lamports = await this.connection.getMinimumBalanceForRentExemption(
+      space + (metadata ? tokenMetadataSpace(metadata) : 0),
+    );
+    const tx = new Transaction({ feePayer: payer }).add(
+      SystemProgram.createAccount({
+        fromPubkey: payer,
+        newAccountPubkey: mint,
+        space,
+        lamports,
+        programId,
+      }),
+      ...setup,
+      createInitializeMint2Instruction(
+        mint,
+        decimals,
+        metadata ? payer : mintAuthority,
+        options?.freezeAuthority ?? null,
+        programId,
+      ),
+    );
+    if (metadata) {
+      tx.add(
+        createInitializeTokenMetadataInstruction({
+          programId,
+          mint,
+          mintAuthority: payer,
+          updateAuthority: mintAuthority,
+          metadata,
+        }),
+      );
+      if (!mintAuthority.equals(payer)) {
+        tx.add(
+          createSetAuthorityInstruction(
+            mint,
+            payer,
+            AuthorityType.MintTokens,
+            mintAuthority,
+            [],
+            programId,
+          ),
+        );
+      }
+    }
+    return tx;
   }
 
-  async createSplMint(payer: Keypair, decimals: number): Promise<PublicKey> {
-    return createMint(this.connection, payer, payer.publicKey, null, decimals);
+  async getMintInfo(mint: PublicKey): Promise<MintInfo> {
+    const programId = await this.getTokenProgram(mint);
+    const info = await getMint(this.connection, mint, "confirmed", programId);
+    const metadata = await this.resolveMetadata([
+      { mint, program: tokenProgramName(programId) },
+    ]);
+    return {
+      mint: mint.toBase58(),
+      program: tokenProgramName(programId),
+      supply: info.supply.toString(),
+      decimals: info.decimals,
+      mintAuthority: info.mintAuthority?.toBase58() ?? null,
+      freezeAuthority: info.freezeAuthority?.toBase58() ?? null,
+      extensions: getExtensionTypes(info.tlvData).map(
+        (type) => ExtensionType[type],
+      ),
+      metadata: metadata.get(mint.toBase58()) ?? null,
+    };
+  }
+
+  /**
+   * Moves the mint or freeze authority of `mint` to `newAuthority`, or
+   * revokes it for good when that is null. `current` must hold it now.
+   */
+  async setMintAuthority(
+    current: Keypair,
+    mint: PublicKey,
+    kind: MintAuthorityKind,
+    newAuthority: PublicKey | null,
+  ): Promise<string> {
+    const info = await this.getMintInfo(mint);
+    const holder = kind === "mint" ? info.mintAuthority : info.freezeAuthority;
+    if (holder !== current.publicKey.toBase58()) {
+      throw new Error(
+        `${current.publicKey.toBase58()} is not the ${kind} authority of ${mint.toBase58()} (current: ${holder ?? "none"})`,
+      );
+    }
+    const tx = this.buildSetMintAuthorityTransaction(
+      current.publicKey,
+      mint,
+      kind,
+      newAuthority,
+      await this.getTokenProgram(mint),
+    );
+    return this.submit(
+      {
+        kind: "set_authority",
+        wallet: current.publicKey,
+        mint,
+        destination: newAuthority ?? undefined,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, current, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  buildSetMintAuthorityTransaction(
+    current: PublicKey,
+    mint: PublicKey,
+    kind: MintAuthorityKind,
+    newAuthority: PublicKey | null,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+  ): Transaction {
+    return new Transaction({ feePayer: current }).add(
+      createSetAuthorityInstruction(
+        mint,
+        current,
+        kind === "mint"
+          ? AuthorityType.MintTokens
+          : AuthorityType.FreezeAccount,
+        newAuthority,
+        [],
+        programId,
+      ),
+    );
   }
 
   async mintSpl(
     payer: Keypair,
     mint: PublicKey,
     destinationOwner: PublicKey,
-    amount: bigint,
+    amount: TokenAmount,
   ): Promise<string> {
-    const destination = await getOrCreateAssociatedTokenAccount(
-      this.connection,
-      payer,
+    amount.assertDecimals(await this.getMintDecimals(mint));
+    const tx = this.buildMintSplTransaction(
+      payer.publicKey,
       mint,
       destinationOwner,
+      amount.raw,
+      await this.getTokenProgram(mint),
     );
-    return mintTo(
-      this.connection,
-      payer,
+    return this.submit(
+      {
+        kind: "spl_mint",
+        wallet: payer.publicKey,
+        amount: amount.raw,
+        mint,
+        destination: destinationOwner,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, payer, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  /**
+   * Creates the destination ATA if needed and mints to it. The payer must be
+   * the mint authority.
+   */
+  buildMintSplTransaction(
+    payer: PublicKey,
+    mint: PublicKey,
+    destinationOwner: PublicKey,
+    amount: bigint,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+  ): Transaction {
+    const destination = getAssociatedTokenAddressSync(
       mint,
-      destination.address,
-      payer,
-      amount,
+      destinationOwner,
+      false,
+      programId,
+    );
+    return new Transaction({ feePayer: payer }).add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer,
+        destination,
+        destinationOwner,
+        mint,
+        programId,
+      ),
+      createMintToInstruction(mint, destination, payer, amount, [], programId),
     );
   }
 
@@ -148,28 +741,374 @@ export class TokenService {
     mint: PublicKey,
     fromOwner: Keypair,
     toOwner: PublicKey,
-    amount: bigint,
+    amount: TokenAmount,
   ): Promise<string> {
-    const source = await getOrCreateAssociatedTokenAccount(
-      this.connection,
-      payer,
+    amount.assertDecimals(await this.getMintDecimals(mint));
+    const tx = this.buildTransferSplTransaction(
+      payer.publicKey,
       mint,
       fromOwner.publicKey,
+      toOwner,
+      amount.raw,
+      amount.decimals,
+      await this.getTokenProgram(mint),
     );
-    const destination = await getOrCreateAssociatedTokenAccount(
-      this.connection,
-      payer,
+    const additionalSigners = fromOwner.publicKey.equals(payer.publicKey)
+      ? []
+      : [fromOwner];
+    return this.submit(
+      {
+        kind: "spl_transfer",
+        wallet: fromOwner.publicKey,
+        amount: amount.raw,
+        mint,
+        destination: toOwner,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, payer, {
+          additionalSigners,
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  /** Burns from the owner's associated token account, reducing supply. */
+  async burnSpl(
+    owner: Keypair,
+    mint: PublicKey,
+    amount: TokenAmount,
+  ): Promise<string> {
+    amount.assertDecimals(await this.getMintDecimals(mint));
+    const tx = this.buildBurnSplTransaction(
+      owner.publicKey,
       mint,
-      toOwner,
+      amount.raw,
+      await this.getTokenProgram(mint),
+    );
+    return this.submit(
+      { kind: "spl_burn", wallet: owner.publicKey, amount: amount.raw, mint },
+      () =>
+        this.walletService.signAndSendTransaction(tx, owner, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  buildBurnSplTransaction(
+    owner: PublicKey,
+    mint: PublicKey,
+    amount: bigint,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+  ): Transaction {
+    const account = getAssociatedTokenAddressSync(
+      mint,
+      owner,
+      false,
+      programId,
+    );
+    return new Transaction({ feePayer: owner }).add(
+      createBurnInstruction(account, mint, owner, amount, [], programId),
     );
+  }
 
-    return transfer(
+  /**
+   * Closes the owner's associated token account for `mint` and sends its
+   * rent to `destination` (the owner by default). The account must be empty.
+   */
+  async closeTokenAccount(
+    owner: Keypair,
+    mint: PublicKey,
+    destination: PublicKey = owner.publicKey,
+  ): Promise<string> {
+    const programId = await this.getTokenProgram(mint);
+    const address = getAssociatedTokenAddressSync(
+      mint,
+      owner.publicKey,
+      false,
+      programId,
+    );
+    const account = await getAccount(
       this.connection,
-      payer,
-      source.address,
-      destination.address,
+      address,
+      "confirmed",
+      programId,
+    );
+    if (account.amount > 0n) {
+      throw new Error(
+        `Token account ${address.toBase58()} still holds ${account.amount} base units; burn or transfer them first`,
+      );
+    }
+    const rent = await this.connection.getBalance(address, "confirmed");
+    const tx = this.buildCloseTokenAccountTransaction(
+      owner.publicKey,
+      mint,
+      destination,
+      programId,
+    );
+    return this.submit(
+      {
+        kind: "close_account",
+        wallet: owner.publicKey,
+        amount: BigInt(rent),
+        mint,
+        destination,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, owner, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  buildCloseTokenAccountTransaction(
+    owner: PublicKey,
+    mint: PublicKey,
+    destination: PublicKey,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+  ): Transaction {
+    const account = getAssociatedTokenAddressSync(
+      mint,
+      owner,
+      false,
+      programId,
+    );
+    return new Transaction({ feePayer: owner }).add(
+      createCloseAccountInstruction(account, destination, owner, [], programId),
+    );
+  }
+
+  /** Freezes `owner`'s associated token account. Needs the freeze authority. */
+  async freezeTokenAccount(
+    authority: Keypair,
+    mint: PublicKey,
+    owner: PublicKey,
+  ): Promise<string> {
+    const programId = await this.getTokenProgram(mint);
+    const account = getAssociatedTokenAddressSync(
+      mint,
+      owner,
+      false,
+      programId,
+    );
+    const tx = new Transaction({ feePayer: authority.publicKey }).add(
+      createFreezeAccountInstruction(
+        account,
+        mint,
+        authority.publicKey,
+        [],
+        programId,
+      ),
+    );
+    return this.submit(
+      {
+        kind: "freeze_account",
+        wallet: authority.publicKey,
+        mint,
+        destination: owner,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, authority, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  /** Thaws a frozen associated token account. Needs the freeze authority. */
+  async thawTokenAccount(
+    authority: Keypair,
+    mint: PublicKey,
+    owner: PublicKey,
+  ): Promise<string> {
+    const programId = await this.getTokenProgram(mint);
+    const account = getAssociatedTokenAddressSync(
+      mint,
+      owner,
+      false,
+      programId,
+    );
+    const tx = new Transaction({ feePayer: authority.publicKey }).add(
+      createThawAccountInstruction(
+        account,
+        mint,
+        authority.publicKey,
+        [],
+        programId,
+      ),
+    );
+    return this.submit(
+      {
+        kind: "thaw_account",
+        wallet: authority.publicKey,
+        mint,
+        destination: owner,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, authority, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  /**
+   * Signs and sends a swap built by a SwapAdapter. The ledger records the
+   * input amount and mint, with the pool as destination.
+   */
+  async sendSwap(
+    tx: AnyTransaction,
+    owner: Keypair,
+    quote: SwapQuote,
+  ): Promise<string> {
+    return this.submit(
+      {
+        kind: "swap",
+        wallet: owner.publicKey,
+        amount: quote.amountIn,
+        mint: quote.inputMint,
+        destination: quote.pool,
+      },
+      () =>
+        this.walletService.signAndSendTransaction(tx, owner, {
+          guard: this.guard,
+          feePolicy: this.feePolicy,
+        }),
+    );
+  }
+
+  /**
+   * Runs a send and records the outcome in the transaction ledger, with the
+   * network fee when the transaction landed.
+   */
+  private async submit(
+    details: LedgerDetails,
+    send: () => Promise<SendResult>,
+  ): Promise<string> {
+    const createdAt = new Date().toISOString();
+    const entry = {
+      agentId: this.agentId,
+      wallet: details.wallet.toBase58(),
+      kind: details.kind,
+      amount: details.amount?.toString(),
+      mint: details.mint?.toBase58(),
+      destination: details.destination?.toBase58(),
+      createdAt,
+    };
+    let result: SendResult;
+    try {
+      result = await send();
+    } catch (error) {
+      const status =
+        error instanceof SpendingLimitError ||
+        error instanceof PolicyViolationError
+          ? "rejected"
+          : error instanceof ApprovalError && error.status === "pending"
+            ? "parked"
+            : error instanceof TransactionSendError &&
+                error.result.status === "expired"
+              ? "expired"
+              : "failed";
+      const message = error instanceof Error ? error.message : String(error);
+      const sent = error instanceof TransactionSendError ? error.result : null;
+      await this.ledger.record({
+        ...entry,
+        signature: sent?.signature,
+        status,
+        error: message,
+        slot: sent?.slot,
+        fee: sent?.fee,
+        approvalId:
+          error instanceof ApprovalError ? error.approvalId : undefined,
+      });
+      this.events?.emit("transaction_failed", {
+        id: this.agentId,
+        wallet: entry.wallet,
+        kind: entry.kind,
+        status,
+        error: message,
+      });
+      throw error;
+    }
+    const { signature, slot } = result;
+    // Sent out of band (an approved transaction) when the fee is unknown
+    const fee = result.fee ?? (await this.getTransactionFee(signature));
+    await this.ledger.record({
+      ...entry,
+      signature,
+      status: "confirmed",
+      slot,
+      fee,
+    });
+    this.events?.emit("transaction_sent", {
+      id: this.agentId,
+      wallet: entry.wallet,
+      kind: entry.kind,
+      signature,
+      fee,
+    });
+    return signature;
+  }
+
+  /** Fee paid by a confirmed transaction, in lamports (best effort). */
+  async getTransactionFee(signature: string): Promise<number | undefined> {
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      return tx?.meta?.fee;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Creates the destination ATA if needed and transfers between the two
+   * owners' associated token accounts. Uses `transferChecked`, which
+   * Token-2022 requires for mints with a transfer fee.
+   */
+  buildTransferSplTransaction(
+    payer: PublicKey,
+    mint: PublicKey,
+    fromOwner: PublicKey,
+    toOwner: PublicKey,
+    amount: bigint,
+    decimals: number,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+  ): Transaction {
+    const source = getAssociatedTokenAddressSync(
+      mint,
       fromOwner,
-      amount,
+      false,
+      programId,
+    );
+    const destination = getAssociatedTokenAddressSync(
+      mint,
+      toOwner,
+      false,
+      programId,
+    );
+    return new Transaction({ feePayer: payer }).add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer,
+        destination,
+        toOwner,
+        mint,
+        programId,
+      ),
+      createTransferCheckedInstruction(
+        source,
+        mint,
+        destination,
+        fromOwner,
+        amount,
+        decimals,
+        [],
+        programId,
+      ),
     );
   }
 }
@@ -0,0 +1,33 @@
+import { sleep } from "./sleep.js";
+
+/** Time source for strategy runs; backtests swap in a VirtualClock. */
+export type Clock = {
+  now(): Date;
+  sleep(ms: number): Promise<void>;
+};
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  sleep,
+};
+
+/** A clock that only moves when told to. Sleeping advances it instantly. */
+export class VirtualClock implements Clock {
+  private time: number;
+
+  constructor(start: Date = new Date()) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.time += ms;
+  }
+
+  set(time: Date): void {
+    this.time = time.getTime();
+  }
+}
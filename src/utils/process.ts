@@ -0,0 +1,10 @@
+/** Whether a process id belongs to a live process on this machine. */
+export function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
@@ -0,0 +1,104 @@
+import { ComputeBudgetProgram, TransactionInstruction } from "@solana/web3.js";
+import {
+  PRIORITY_FEE_MAX_LAMPORTS,
+  PRIORITY_FEE_PERCENTILE,
+} from "../config.js";
+
+/**
+ * How an agent bids for block space: the percentile of recent priority fees
+ * (micro-lamports per compute unit) on the accounts it writes, and a cap on
+ * the priority fee of one transaction in lamports. Unset fields fall back
+ * to PRIORITY_FEE_PERCENTILE and PRIORITY_FEE_MAX_LAMPORTS.
+ */
+export type FeePolicy = {
+  percentile?: number;
+  maxLamports?: number;
+};
+
+/** What `WalletService.applyComputeBudget` set on a transaction. */
+export type AppliedComputeBudget = {
+  /** Compute-unit limit. */
+  units: number;
+  /** Price per compute unit; zero when no priority fee was set. */
+  microLamports: number;
+  /** Most the priority fee can cost, in lamports. */
+  priorityFee: number;
+};
+
+/** Most compute units a transaction may request. */
+export const MAX_COMPUTE_UNITS = 1_400_000;
+/** Headroom over the simulated units, as a fraction. */
+const COMPUTE_UNIT_MARGIN = 0.1;
+/** Units of the two compute budget instructions the wallet adds. */
+const COMPUTE_BUDGET_UNITS = 300;
+/** Most accounts `getRecentPrioritizationFees` accepts. */
+export const MAX_FEE_ACCOUNTS = 128;
+
+/** Throws if the policy document is malformed. */
+export function validateFeePolicy(policy: FeePolicy): void {
+  const { percentile, maxLamports } = policy;
+  if (
+    percentile !== undefined &&
+    (typeof percentile !== "number" || !(percentile >= 0 && percentile <= 100))
+  ) {
+    throw new Error("percentile must be a number between 0 and 100");
+  }
+  if (
+    maxLamports !== undefined &&
+    (typeof maxLamports !== "number" ||
+      !Number.isInteger(maxLamports) ||
+      maxLamports < 0)
+  ) {
+    throw new Error("maxLamports must be a non-negative integer");
+  }
+}
+
+/** The policy with defaults filled in. */
+export function resolveFeePolicy(policy?: FeePolicy): Required<FeePolicy> {
+  return {
+    percentile: policy?.percentile ?? PRIORITY_FEE_PERCENTILE,
+    maxLamports: policy?.maxLamports ?? PRIORITY_FEE_MAX_LAMPORTS,
+  };
+}
+
+/** Nearest-rank percentile of `values`; zero when there are none. */
+export function percentileOf(values: number[], percentile: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/** A limit just above what simulation measured, within the cluster max. */
+export function computeUnitLimitFor(unitsConsumed: number): number {
+  return Math.min(
+    Math.ceil(unitsConsumed * (1 + COMPUTE_UNIT_MARGIN)) + COMPUTE_BUDGET_UNITS,
+    MAX_COMPUTE_UNITS,
+  );
+}
+
+/**
+ * Price per compute unit in micro-lamports: the policy's percentile of
+ * `recentFees`, lowered so `units` at that price cost at most `maxLamports`.
+ */
+export function priorityFeePrice(
+  recentFees: number[],
+  units: number,
+  policy: Required<FeePolicy>,
+): number {
+  const cap = Math.floor((policy.maxLamports * 1_000_000) / units);
+  return Math.min(percentileOf(recentFees, policy.percentile), cap);
+}
+
+/** Priority fee in lamports, rounded up as the runtime charges it. */
+export function priorityFeeLamports(units: number, price: number): number {
+  return Math.ceil((units * price) / 1_000_000);
+}
+
+export function isComputeBudgetInstruction(
+  ix: TransactionInstruction,
+): boolean {
+  return ix.programId.equals(ComputeBudgetProgram.programId);
+}
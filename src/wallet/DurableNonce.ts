@@ -0,0 +1,49 @@
+import {
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+/**
+ * Seed of a wallet's nonce account, derived from the wallet's address so
+ * each wallet (and so each agent) has exactly one and nothing has to be
+ * stored to find it.
+ */
+export const NONCE_SEED = "durable-nonce";
+
+/** A nonce account and the value its next transaction must use. */
+export type NonceStatus = {
+  address: string;
+  authority: string;
+  /** Stands in for the recent blockhash; changes every time it is used. */
+  nonce: string;
+  lamportsPerSignature: number;
+  balanceLamports: number;
+};
+
+export function nonceAccountAddress(wallet: PublicKey): Promise<PublicKey> {
+  return PublicKey.createWithSeed(wallet, NONCE_SEED, SystemProgram.programId);
+}
+
+/**
+ * The nonce account a durable transaction advances: the runtime only
+ * accepts a nonce in place of a recent blockhash when `AdvanceNonceAccount`
+ * is the first instruction.
+ */
+export function advancedNonceAccount(
+  instructions: TransactionInstruction[],
+): PublicKey | null {
+  const [first] = instructions;
+  if (!first || !first.programId.equals(SystemProgram.programId)) {
+    return null;
+  }
+  try {
+    return SystemInstruction.decodeInstructionType(first) ===
+      "AdvanceNonceAccount"
+      ? SystemInstruction.decodeNonceAdvance(first).noncePubkey
+      : null;
+  } catch {
+    return null;
+  }
+}
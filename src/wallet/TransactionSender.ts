@@ -0,0 +1,181 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { SEND_REBROADCAST_MS } from "../config.js";
+import { sleep } from "../utils/sleep.js";
+
+/**
+ * confirmed: landed and succeeded. failed: landed with an error (the fee is
+ * still charged). expired: its blockhash expired (or its nonce was used)
+ * before it landed, so it never will.
+ */
+export type SendStatus = "confirmed" | "failed" | "expired";
+
+export type SendResult = {
+  signature: string;
+  status: SendStatus;
+  /** Slot it landed in; unset when it expired. */
+  slot?: number;
+  /** Fee paid in lamports, when known. */
+  fee?: number;
+  /** On-chain error of a failed transaction. */
+  error?: string;
+};
+
+/**
+ * How long a transaction can land: until the block height passes
+ * `lastValidBlockHeight`, or while `blockhash` is still valid when the
+ * height is unknown. A durable transaction can land until its nonce
+ * account moves past `nonce`.
+ */
+export type TransactionLifetime =
+  | { blockhash: string; lastValidBlockHeight?: number }
+  | { nonceAccount: PublicKey; nonce: string };
+
+/** A sent transaction that failed on-chain or expired before it landed. */
+export class TransactionSendError extends Error {
+  constructor(readonly result: SendResult) {
+    super(
+      result.status === "expired"
+        ? `Transaction ${result.signature} expired before it landed`
+        : `Transaction ${result.signature} failed: ${result.error}`,
+    );
+    this.name = "TransactionSendError";
+  }
+}
+
+/** Simulation rejected a transaction; `err` is the runtime's error. */
+export class SimulationError extends Error {
+  constructor(readonly err: unknown) {
+    super(`Transaction simulation failed: ${JSON.stringify(err)}`);
+    this.name = "SimulationError";
+  }
+}
+
+/**
+ * The custom program error code behind a failed simulation or a
+ * transaction that failed on-chain, if a program returned one.
+ */
+export function customErrorCode(error: unknown): number | undefined {
+  let err: unknown;
+  if (error instanceof SimulationError) {
+    err = error.err;
+  } else if (error instanceof TransactionSendError && error.result.error) {
+    try {
+      err = JSON.parse(error.result.error);
+    } catch {
+      return undefined;
+    }
+  }
+  // { InstructionError: [index, { Custom: code }] }
+  const detail =
+    err && typeof err === "object" && "InstructionError" in err
+      ? (err as { InstructionError: [number, unknown] }).InstructionError[1]
+      : undefined;
+  return detail && typeof detail === "object" && "Custom" in detail
+    ? Number((detail as { Custom: number }).Custom)
+    : undefined;
+}
+
+/**
+ * Sends raw transactions and rebroadcasts them every `intervalMs` until they
+ * land or their lifetime ends, then reports how they ended. The RPC node's
+ * own retries are turned off so the rebroadcasts are the only ones.
+ */
+export class TransactionSender {
+  constructor(
+    private readonly connection: Connection,
+    private readonly intervalMs: number = SEND_REBROADCAST_MS,
+  ) {}
+
+  async send(
+    raw: Uint8Array,
+    lifetime: TransactionLifetime,
+  ): Promise<SendResult> {
+    const broadcast = () =>
+      this.connection.sendRawTransaction(raw, {
+        skipPreflight: true,
+        maxRetries: 0,
+      });
+    const signature = await broadcast();
+    return this.track(signature, lifetime, broadcast);
+  }
+
+  /**
+   * Waits until `signature` lands or its lifetime ends, calling
+   * `rebroadcast` (if given) between status checks.
+   */
+  async track(
+    signature: string,
+    lifetime: TransactionLifetime,
+    rebroadcast?: () => Promise<unknown>,
+  ): Promise<SendResult> {
+    for (;;) {
+      await sleep(this.intervalMs);
+      const landed = await this.landed(signature);
+      if (landed) {
+        return landed;
+      }
+      if (await this.expired(lifetime)) {
+        // It may still have made it into the last valid block
+        return (
+          (await this.landed(signature)) ?? { signature, status: "expired" }
+        );
+      }
+      await rebroadcast?.().catch(() => undefined);
+    }
+  }
+
+  private async landed(signature: string): Promise<SendResult | null> {
+    const {
+      value: [status],
+    } = await this.connection.getSignatureStatuses([signature]);
+    if (
+      !status ||
+      (status.confirmationStatus !== "confirmed" &&
+        status.confirmationStatus !== "finalized")
+    ) {
+      return null;
+    }
+    const fee = await this.feeOf(signature);
+    return status.err
+      ? {
+          signature,
+          status: "failed",
+          slot: status.slot,
+          fee,
+          error: JSON.stringify(status.err),
+        }
+      : { signature, status: "confirmed", slot: status.slot, fee };
+  }
+
+  private async expired(lifetime: TransactionLifetime): Promise<boolean> {
+    if ("nonceAccount" in lifetime) {
+      // Landing advances the nonce too; the caller checks for that first
+      const account = await this.connection.getNonce(
+        lifetime.nonceAccount,
+        "confirmed",
+      );
+      return account?.nonce !== lifetime.nonce;
+    }
+    if (lifetime.lastValidBlockHeight !== undefined) {
+      const height = await this.connection.getBlockHeight("confirmed");
+      return height > lifetime.lastValidBlockHeight;
+    }
+    const { value } = await this.connection.isBlockhashValid(
+      lifetime.blockhash,
+      { commitment: "confirmed" },
+    );
+    return !value;
+  }
+
+  private async feeOf(signature: string): Promise<number | undefined> {
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      return tx?.meta?.fee;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1,8 +1,49 @@
-import { Connection, Keypair, Transaction } from "@solana/web3.js";
-import { KEYSTORE_DIR, RPC_URL } from "../config.js";
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { KEYSTORE_DIR, RPC_URL, SEND_ATTEMPTS } from "../config.js";
 import { KeyManager } from "./KeyManager.js";
 import { KoraClient } from "../kora/KoraClient.js";
 import { ProgramAllowlist } from "../security/ProgramAllowlist.js";
+import {
+  AppliedComputeBudget,
+  FeePolicy,
+  MAX_COMPUTE_UNITS,
+  MAX_FEE_ACCOUNTS,
+  computeUnitLimitFor,
+  isComputeBudgetInstruction,
+  priorityFeeLamports,
+  priorityFeePrice,
+  resolveFeePolicy,
+} from "./ComputeBudget.js";
+import {
+  NONCE_SEED,
+  NonceStatus,
+  advancedNonceAccount,
+  nonceAccountAddress,
+} from "./DurableNonce.js";
+import {
+  SendResult,
+  SimulationError,
+  TransactionLifetime,
+  TransactionSendError,
+  TransactionSender,
+} from "./TransactionSender.js";
+import {
+  AnyTransaction,
+  ResolvedTransaction,
+  TransactionGuard,
+} from "./types.js";
 
 export class WalletService {
   private readonly connection: Connection;
@@ -10,6 +51,14 @@ export class WalletService {
   private readonly dir: string;
   private readonly koraClient: KoraClient;
   private readonly allowlist: ProgramAllowlist;
+  private readonly sender: TransactionSender;
+  /**
+   * Last valid block height of the blockhash this service gave each v0
+   * transaction; legacy transactions carry it themselves.
+   */
+  private readonly blockHeights = new WeakMap<VersionedTransaction, number>();
+  /** Current value of each nonce account this service has used. */
+  private readonly nonces = new Map<string, string>();
 
   constructor(options?: {
     connection?: Connection;
@@ -17,6 +66,7 @@ export class WalletService {
     dir?: string;
     koraClient?: KoraClient;
     allowlist?: ProgramAllowlist;
+    sender?: TransactionSender;
   }) {
     this.connection =
       options?.connection ?? new Connection(RPC_URL, "confirmed");
@@ -24,6 +74,7 @@ export class WalletService {
     this.dir = options?.dir ?? KEYSTORE_DIR;
     this.koraClient = options?.koraClient ?? new KoraClient();
     this.allowlist = options?.allowlist ?? new ProgramAllowlist();
+    this.sender = options?.sender ?? new TransactionSender(this.connection);
   }
 
   async createWallet(name: string): Promise<Keypair> {
@@ -40,28 +91,400 @@ export class WalletService {
     return this.keyManager.listKeypairs(this.dir);
   }
 
-  async signTransaction(
-    tx: Transaction,
+  async signTransaction<T extends AnyTransaction>(
+    tx: T,
     wallet: Keypair,
-  ): Promise<Transaction> {
+    additionalSigners: Keypair[] = [],
+  ): Promise<T> {
+    await this.prepareTransaction(tx, wallet.publicKey);
+    if (tx instanceof VersionedTransaction) {
+      tx.sign([wallet, ...additionalSigners]);
+    } else {
+      tx.sign(wallet, ...additionalSigners);
+    }
+    return tx;
+  }
+
+  /**
+   * Assigns fee payer and recent blockhash if they are missing. A v0
+   * message names its fee payer when it is compiled, so only the blockhash
+   * is filled in.
+   */
+  async prepareTransaction<T extends AnyTransaction>(
+    tx: T,
+    feePayer: PublicKey,
+  ): Promise<T> {
+    if (tx instanceof VersionedTransaction) {
+      if (!tx.message.recentBlockhash) {
+        const { blockhash, lastValidBlockHeight } =
+          await this.connection.getLatestBlockhash("confirmed");
+        tx.message.recentBlockhash = blockhash;
+        this.blockHeights.set(tx, lastValidBlockHeight);
+      }
+      return tx;
+    }
     if (!tx.feePayer) {
-      tx.feePayer = wallet.publicKey;
+      tx.feePayer = feePayer;
     }
     if (!tx.recentBlockhash) {
-      const { blockhash } =
+      const nonceAccount = advancedNonceAccount(tx.instructions);
+      if (nonceAccount) {
+        tx.recentBlockhash = await this.currentNonce(nonceAccount);
+        return tx;
+      }
+      const { blockhash, lastValidBlockHeight } =
         await this.connection.getLatestBlockhash("confirmed");
       tx.recentBlockhash = blockhash;
+      tx.lastValidBlockHeight = lastValidBlockHeight;
+    }
+    return tx;
+  }
+
+  /** Until when a prepared transaction can land. */
+  private lifetimeOf(tx: AnyTransaction): TransactionLifetime {
+    if (tx instanceof VersionedTransaction) {
+      return {
+        blockhash: tx.message.recentBlockhash,
+        lastValidBlockHeight: this.blockHeights.get(tx),
+      };
+    }
+    const nonceAccount = advancedNonceAccount(tx.instructions);
+    if (nonceAccount) {
+      return { nonceAccount, nonce: tx.recentBlockhash! };
+    }
+    return {
+      blockhash: tx.recentBlockhash!,
+      lastValidBlockHeight: tx.lastValidBlockHeight,
+    };
+  }
+
+  /**
+   * Creates the wallet's durable nonce account, at an address derived from
+   * the wallet, with the wallet as its authority. The wallet pays the rent.
+   */
+  async createNonceAccount(
+    wallet: Keypair,
+    options?: { guard?: TransactionGuard; feePolicy?: FeePolicy },
+  ): Promise<{ signature: string; status: NonceStatus }> {
+    const address = await nonceAccountAddress(wallet.publicKey);
+    if (await this.connection.getAccountInfo(address, "confirmed")) {
+      throw new Error(`Nonce account already exists: ${address.toBase58()}`);
+    }
+    const lamports =
+      await this.connection.getMinimumBalanceForRentExemption(
+        NONCE_ACCOUNT_LENGTH,
+      );
+    const tx = new Transaction().add(
+      SystemProgram.createNonceAccount({
+        fromPubkey: wallet.publicKey,
+        noncePubkey: address,
+        basePubkey: wallet.publicKey,
+        seed: NONCE_SEED,
+        authorizedPubkey: wallet.publicKey,
+        lamports,
+      }),
+    );
+    const { signature } = await this.signAndSendTransaction(
+      tx,
+      wallet,
+      options,
+    );
+    const status = await this.getNonceStatus(wallet.publicKey);
+    if (!status) {
+      throw new Error(`Nonce account not found after creation: ${signature}`);
+    }
+    return { signature, status };
+  }
+
+  /** The wallet's nonce account, or null if it has none. */
+  async getNonceStatus(wallet: PublicKey): Promise<NonceStatus | null> {
+    const address = await nonceAccountAddress(wallet);
+    const { value } = await this.connection.getNonceAndContext(
+      address,
+      "confirmed",
+    );
+    if (!value) {
+      return null;
     }
-    tx.sign(wallet);
+    const balanceLamports = await this.connection.getBalance(
+      address,
+      "confirmed",
+    );
+    this.nonces.set(address.toBase58(), value.nonce);
+    return {
+      address: address.toBase58(),
+      authority: value.authorizedPubkey.toBase58(),
+      nonce: value.nonce,
+      lamportsPerSignature: value.feeCalculator.lamportsPerSignature,
+      balanceLamports,
+    };
+  }
+
+  /**
+   * Builds an unsigned durable transaction for `authority`'s wallet:
+   * `AdvanceNonceAccount` on its nonce account comes first and the nonce
+   * replaces the recent blockhash, so it stays valid until the nonce is
+   * used. It can be signed and sent any time later; the pipeline keeps the
+   * advance first when it adds the compute budget.
+   */
+  async buildDurableTransaction(
+    authority: PublicKey,
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey = authority,
+  ): Promise<Transaction> {
+    const noncePubkey = await nonceAccountAddress(authority);
+    const tx = new Transaction({ feePayer }).add(
+      SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: authority }),
+      ...instructions,
+    );
+    tx.recentBlockhash = await this.currentNonce(noncePubkey);
     return tx;
   }
 
-  async simulateTransaction(tx: Transaction): Promise<{
+  /** The nonce a durable transaction should use next. */
+  private async currentNonce(nonceAccount: PublicKey): Promise<string> {
+    return (
+      this.nonces.get(nonceAccount.toBase58()) ??
+      (await this.refreshNonce(nonceAccount))
+    );
+  }
+
+  /** Reads the nonce again; every transaction that lands advances it. */
+  private async refreshNonce(nonceAccount: PublicKey): Promise<string> {
+    const account = await this.connection.getNonce(nonceAccount, "confirmed");
+    if (!account) {
+      throw new Error(
+        `Nonce account not found: ${nonceAccount.toBase58()} (create it with wallet:nonce:create)`,
+      );
+    }
+    this.nonces.set(nonceAccount.toBase58(), account.nonce);
+    return account.nonce;
+  }
+
+  /** Drops the blockhash so the next `prepareTransaction` fetches a new one. */
+  private clearBlockhash(tx: AnyTransaction): void {
+    if (tx instanceof VersionedTransaction) {
+      tx.message.recentBlockhash = "";
+      this.blockHeights.delete(tx);
+    } else {
+      tx.recentBlockhash = undefined;
+      tx.lastValidBlockHeight = undefined;
+    }
+  }
+
+  /**
+   * Compiles instructions into an unsigned v0 transaction. Accounts found in
+   * the given address lookup tables are referenced through them.
+   */
+  async buildVersionedTransaction(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    lookupTables: PublicKey[] = [],
+  ): Promise<VersionedTransaction> {
+    const [tables, { blockhash, lastValidBlockHeight }] = await Promise.all([
+      this.getLookupTables(lookupTables),
+      this.connection.getLatestBlockhash("confirmed"),
+    ]);
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(tables);
+    const tx = new VersionedTransaction(message);
+    this.blockHeights.set(tx, lastValidBlockHeight);
+    return tx;
+  }
+
+  async getLookupTables(
+    addresses: PublicKey[],
+  ): Promise<AddressLookupTableAccount[]> {
+    return Promise.all(
+      addresses.map(async (address) => {
+        const { value } = await this.connection.getAddressLookupTable(address, {
+          commitment: "confirmed",
+        });
+        if (!value) {
+          throw new Error(
+            `Address lookup table not found: ${address.toBase58()}`,
+          );
+        }
+        return value;
+      }),
+    );
+  }
+
+  /**
+   * The fee payer and instructions of a transaction, with the accounts of a
+   * v0 message's lookup tables loaded so every key (and every program) can
+   * be inspected.
+   */
+  async resolveTransaction(tx: AnyTransaction): Promise<ResolvedTransaction> {
+    if (!(tx instanceof VersionedTransaction)) {
+      return tx;
+    }
+    return this.decompile(tx, await this.lookupTablesOf(tx));
+  }
+
+  /**
+   * Sizes a prepared transaction for the network: simulates it at the
+   * maximum compute limit, then prepends a compute-unit limit just above
+   * what it used and a priority fee from recent fees on the accounts it
+   * writes, per the fee policy. No priority fee is set when Kora pays the
+   * fees. Transactions that already carry compute budget instructions are
+   * left unchanged and null is returned.
+   */
+  async applyComputeBudget(
+    tx: AnyTransaction,
+    policy?: FeePolicy,
+  ): Promise<AppliedComputeBudget | null> {
+    const tables =
+      tx instanceof VersionedTransaction ? await this.lookupTablesOf(tx) : [];
+    const { instructions } =
+      tx instanceof VersionedTransaction ? this.decompile(tx, tables) : tx;
+    if (instructions.some(isComputeBudgetInstruction)) {
+      return null;
+    }
+
+    // A durable transaction's nonce advance has to stay first
+    const advance = advancedNonceAccount(instructions)
+      ? instructions.slice(0, 1)
+      : [];
+    const rest = instructions.slice(advance.length);
+    const probe = this.withInstructions(
+      tx,
+      [
+        ...advance,
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...rest,
+      ],
+      tables,
+    );
+    const simulation = await this.simulateTransaction(probe);
+    if (simulation.err) {
+      throw new SimulationError(simulation.err);
+    }
+    const units = computeUnitLimitFor(simulation.unitsConsumed);
+    const microLamports = this.koraClient.isEnabled()
+      ? 0
+      : priorityFeePrice(
+          await this.recentPriorityFees(instructions),
+          units,
+          resolveFeePolicy(policy),
+        );
+
+    const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units })];
+    if (microLamports > 0) {
+      budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+    const sized = this.withInstructions(
+      tx,
+      [...advance, ...budget, ...rest],
+      tables,
+    );
+    if (tx instanceof VersionedTransaction) {
+      const height = this.blockHeights.get(tx);
+      tx.message = (sized as VersionedTransaction).message;
+      if (height !== undefined) {
+        this.blockHeights.set(tx, height);
+      }
+    } else {
+      tx.instructions = (sized as Transaction).instructions;
+    }
+    return {
+      units,
+      microLamports,
+      priorityFee: priorityFeeLamports(units, microLamports),
+    };
+  }
+
+  /** Recent priority fees (micro-lamports per CU) on the accounts written. */
+  private async recentPriorityFees(
+    instructions: TransactionInstruction[],
+  ): Promise<number[]> {
+    const writable = new Map<string, PublicKey>();
+    for (const ix of instructions) {
+      for (const key of ix.keys) {
+        if (key.isWritable) {
+          writable.set(key.pubkey.toBase58(), key.pubkey);
+        }
+      }
+    }
+    const fees = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: [...writable.values()].slice(0, MAX_FEE_ACCOUNTS),
+    });
+    return fees.map((fee) => fee.prioritizationFee);
+  }
+
+  private lookupTablesOf(
+    tx: VersionedTransaction,
+  ): Promise<AddressLookupTableAccount[]> {
+    return this.getLookupTables(
+      tx.message.addressTableLookups.map((lookup) => lookup.accountKey),
+    );
+  }
+
+  private decompile(
+    tx: VersionedTransaction,
+    tables: AddressLookupTableAccount[],
+  ): ResolvedTransaction {
+    const message = TransactionMessage.decompile(tx.message, {
+      addressLookupTableAccounts: tables,
+    });
+    return { feePayer: message.payerKey, instructions: message.instructions };
+  }
+
+  /**
+   * An unsigned copy of `tx` with other instructions, same fee payer and
+   * blockhash. v0 copies are compiled against the same lookup tables.
+   */
+  private withInstructions(
+    tx: AnyTransaction,
+    instructions: TransactionInstruction[],
+    tables: AddressLookupTableAccount[],
+  ): AnyTransaction {
+    if (tx instanceof VersionedTransaction) {
+      const { feePayer } = this.decompile(tx, tables);
+      return new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: feePayer!,
+          recentBlockhash: tx.message.recentBlockhash,
+          instructions,
+        }).compileToV0Message(tables),
+      );
+    }
+    const copy = new Transaction().add(...instructions);
+    copy.feePayer = tx.feePayer;
+    copy.recentBlockhash = tx.recentBlockhash;
+    return copy;
+  }
+
+  /**
+   * Network fee the wallet will pay for a prepared transaction, in lamports:
+   * the signature fee plus any priority fee its compute budget sets. Zero
+   * when Kora sponsors fees.
+   */
+  async estimateFee(tx: AnyTransaction): Promise<number> {
+    if (this.koraClient.isEnabled()) {
+      return 0;
+    }
+    const { value } = await this.connection.getFeeForMessage(
+      tx instanceof VersionedTransaction ? tx.message : tx.compileMessage(),
+      "confirmed",
+    );
+    return value ?? 0;
+  }
+
+  async simulateTransaction(tx: AnyTransaction): Promise<{
     err: unknown | null;
     logs: string[] | null;
     unitsConsumed: number;
   }> {
-    const { value } = await this.connection.simulateTransaction(tx);
+    const { value } =
+      tx instanceof VersionedTransaction
+        ? await this.connection.simulateTransaction(tx, {
+            commitment: "confirmed",
+          })
+        : await this.connection.simulateTransaction(tx);
     return {
       err: value.err,
       logs: value.logs,
@@ -69,31 +492,111 @@ export class WalletService {
     };
   }
 
+  /**
+   * Validates, simulates and sends a signed transaction, rebroadcasting it
+   * until it lands or its blockhash expires. Throws a `TransactionSendError`
+   * carrying the result unless it was confirmed.
+   */
   async sendTransaction(
-    tx: Transaction,
+    tx: AnyTransaction,
     options?: { skipSimulation?: boolean },
-  ): Promise<string> {
-    // Validate against program allowlist
-    this.allowlist.validateTransaction(tx);
+  ): Promise<SendResult> {
+    // Validate against program allowlist, lookup tables resolved
+    if (this.allowlist.getAllowed().length > 0) {
+      this.allowlist.validateTransaction(await this.resolveTransaction(tx));
+    }
 
     // Simulate transaction first (unless explicitly skipped)
     if (!options?.skipSimulation) {
       const simulation = await this.simulateTransaction(tx);
       if (simulation.err) {
-        throw new Error(
-          `Transaction simulation failed: ${JSON.stringify(simulation.err)}`,
-        );
+        throw new SimulationError(simulation.err);
       }
     }
 
     // Use Kora if enabled, otherwise use standard RPC
-    if (this.koraClient.isEnabled()) {
-      return this.koraClient.sendTransaction(tx);
+    const lifetime = this.lifetimeOf(tx);
+    const result = this.koraClient.isEnabled()
+      ? await this.koraClient.sendTransaction(tx, lifetime)
+      : await this.sender.send(tx.serialize(), lifetime);
+    if ("nonceAccount" in lifetime) {
+      await this.refreshNonce(lifetime.nonceAccount);
+    }
+    if (result.status !== "confirmed") {
+      throw new TransactionSendError(result);
     }
+    return result;
+  }
 
-    const signature = await this.connection.sendRawTransaction(tx.serialize());
-    await this.connection.confirmTransaction(signature, "confirmed");
-    return signature;
+  /**
+   * Full pipeline for an unsigned transaction: set its compute budget, sign,
+   * validate against the allowlist, simulate and send (via Kora when
+   * enabled). An optional guard can veto the transaction before it is
+   * signed; it sees the compute budget, so the priority fee counts against
+   * its limits. Skipping simulation also skips the compute budget. When the
+   * blockhash expires before the transaction lands, it is signed again with
+   * a fresh one, up to SEND_ATTEMPTS times in all.
+   */
+  async signAndSendTransaction(
+    tx: AnyTransaction,
+    wallet: Keypair,
+    options?: {
+      additionalSigners?: Keypair[];
+      skipSimulation?: boolean;
+      guard?: TransactionGuard;
+      feePolicy?: FeePolicy;
+    },
+  ): Promise<SendResult> {
+    await this.prepareTransaction(tx, wallet.publicKey);
+    if (!options?.skipSimulation) {
+      await this.applyComputeBudget(tx, options?.feePolicy);
+    }
+    for (let attempt = 1; ; attempt++) {
+      const submitted = await options?.guard?.beforeSign?.(
+        tx,
+        wallet.publicKey,
+      );
+      if (submitted) {
+        return { signature: submitted, status: "confirmed" };
+      }
+      const signed = await this.signTransaction(
+        tx,
+        wallet,
+        options?.additionalSigners,
+      );
+      try {
+        const result = await this.sendTransaction(signed, {
+          skipSimulation: options?.skipSimulation,
+        });
+        await options?.guard?.afterSend?.(
+          signed,
+          wallet.publicKey,
+          result.signature,
+        );
+        return result;
+      } catch (error) {
+        if (
+          error instanceof TransactionSendError &&
+          error.result.status === "failed" &&
+          error.result.slot !== undefined
+        ) {
+          await options?.guard?.afterFailure?.(
+            signed,
+            wallet.publicKey,
+            error.result,
+          );
+        }
+        if (
+          !(error instanceof TransactionSendError) ||
+          error.result.status !== "expired" ||
+          attempt >= SEND_ATTEMPTS
+        ) {
+          throw error;
+        }
+        this.clearBlockhash(tx);
+        await this.prepareTransaction(tx, wallet.publicKey);
+      }
+    }
   }
 
   getConnection(): Connection {
@@ -1,3 +1,11 @@
+import {
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { SendResult } from "./TransactionSender.js";
+
 export type StoredKeypair = {
   name: string;
   publicKey: string;
@@ -7,3 +15,41 @@ export type StoredKeypair = {
   tag: string;
   createdAt: string;
 };
+
+/** A legacy transaction, or a v0 one that may use address lookup tables. */
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+/**
+ * A transaction's fee payer and instructions with every account resolved,
+ * including those a v0 message loads from lookup tables. A legacy
+ * `Transaction` already has this shape.
+ */
+export type ResolvedTransaction = {
+  feePayer?: PublicKey;
+  instructions: TransactionInstruction[];
+};
+
+/**
+ * Hooks around the sign/send pipeline. `beforeSign` sees the transaction
+ * with fee payer and blockhash set and may throw to abort it, or return the
+ * signature of a copy that was submitted out of band (e.g. after operator
+ * approval) to skip signing. `afterSend` runs once the transaction is
+ * confirmed by this pipeline, `afterFailure` once it landed with an error
+ * and was charged its fee.
+ */
+export type TransactionGuard = {
+  beforeSign?: (
+    tx: AnyTransaction,
+    wallet: PublicKey,
+  ) => Promise<string | void>;
+  afterSend?: (
+    tx: AnyTransaction,
+    wallet: PublicKey,
+    signature: string,
+  ) => Promise<void>;
+  afterFailure?: (
+    tx: AnyTransaction,
+    wallet: PublicKey,
+    result: SendResult,
+  ) => Promise<void>;
+};